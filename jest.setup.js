@@ -6,6 +6,7 @@
 jest.mock('firebase/firestore', () => {
   return {
     collection: jest.fn(),
+    collectionGroup: jest.fn(),
     doc: jest.fn(),
     getDoc: jest.fn(),
     getDocs: jest.fn(),
@@ -13,16 +14,59 @@ jest.mock('firebase/firestore', () => {
     where: jest.fn(),
     orderBy: jest.fn(),
     limit: jest.fn(),
+    limitToLast: jest.fn(),
+    startAfter: jest.fn(),
+    startAt: jest.fn(),
+    endBefore: jest.fn(),
+    endAt: jest.fn(),
+    documentId: jest.fn(),
     addDoc: jest.fn(),
     setDoc: jest.fn(),
     updateDoc: jest.fn(),
     deleteDoc: jest.fn(),
+    writeBatch: jest.fn(),
+    runTransaction: jest.fn(),
+    getAggregateFromServer: jest.fn(),
+    count: jest.fn(),
+    sum: jest.fn(),
+    average: jest.fn(),
+    increment: jest.fn((amount) => ({ _sentinel: 'increment', amount })),
+    arrayUnion: jest.fn((...elements) => ({ _sentinel: 'arrayUnion', elements })),
+    arrayRemove: jest.fn((...elements) => ({ _sentinel: 'arrayRemove', elements })),
+    serverTimestamp: jest.fn(() => ({ _sentinel: 'serverTimestamp' })),
+    deleteField: jest.fn(() => ({ _sentinel: 'deleteField' })),
     getFirestore: jest.fn(),
     initializeFirestore: jest.fn(),
+    connectFirestoreEmulator: jest.fn(),
+    terminate: jest.fn().mockResolvedValue(undefined),
     onSnapshot: jest.fn(),
     enableNetwork: jest.fn().mockResolvedValue(undefined),
     disableNetwork: jest.fn().mockResolvedValue(undefined),
     enableIndexedDbPersistence: jest.fn().mockResolvedValue(undefined),
+    Timestamp: class Timestamp {
+      constructor(seconds, nanoseconds) {
+        this.seconds = seconds;
+        this.nanoseconds = nanoseconds;
+      }
+      toMillis() {
+        return this.seconds * 1000 + Math.floor(this.nanoseconds / 1e6);
+      }
+      toDate() {
+        return new Date(this.toMillis());
+      }
+    },
+    GeoPoint: class GeoPoint {
+      constructor(latitude, longitude) {
+        this.latitude = latitude;
+        this.longitude = longitude;
+      }
+    },
+    DocumentReference: class DocumentReference {
+      constructor(path) {
+        this.path = path;
+        this.id = path.split('/').pop();
+      }
+    },
   };
 });
 
@@ -36,6 +80,7 @@ jest.mock('firebase/app', () => {
       name: 'test-app',
       options: {},
     }),
+    deleteApp: jest.fn().mockResolvedValue(undefined),
   };
 });
 
@@ -0,0 +1,104 @@
+import { describe, test, expect, jest, beforeEach } from "@jest/globals";
+import { aggregateData } from "../core/operations/aggregateData";
+import { getFirebaseInstance } from "../core/firebase";
+import {
+  collection,
+  getAggregateFromServer,
+  sum,
+  average,
+} from "firebase/firestore";
+
+// Mock Firebase
+jest.mock("../core/firebase");
+
+const mockCache = {
+  get: jest.fn(),
+  set: jest.fn(),
+  configure: jest.fn(),
+};
+
+jest.mock("../cache/cacheManager", () => ({
+  CacheManager: {
+    getInstance: jest.fn(() => mockCache),
+    createKey: jest.fn(
+      (path, options) => `${path}:${JSON.stringify(options)}`
+    ),
+  },
+}));
+
+describe("aggregateData Function", () => {
+  const mockFirestore = {};
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    (getFirebaseInstance as jest.Mock).mockReturnValue({
+      firestore: mockFirestore,
+    });
+    (collection as jest.Mock).mockReturnValue({ id: "orders" });
+    (getAggregateFromServer as jest.Mock).mockImplementation(() =>
+      Promise.resolve({
+        data: () => ({ count: 4, sum_0: 120, average_0: 30 }),
+      })
+    );
+    mockCache.get.mockReturnValue(null);
+  });
+
+  test("should count documents by default", async () => {
+    (getAggregateFromServer as jest.Mock).mockImplementation(() =>
+      Promise.resolve({ data: () => ({ count: 4 }) })
+    );
+
+    const result = await aggregateData({ path: "orders" });
+
+    expect(collection).toHaveBeenCalledWith(mockFirestore, "orders");
+    expect(result).toEqual({
+      data: { count: 4, sum: {}, average: {} },
+      error: null,
+      loading: false,
+    });
+  });
+
+  test("should map sum and average results to field names", async () => {
+    const result = await aggregateData({
+      path: "orders",
+      where: [["status", "==", "paid"]],
+      count: true,
+      sum: ["total"],
+      average: ["total"],
+    });
+
+    expect(sum).toHaveBeenCalledWith("total");
+    expect(average).toHaveBeenCalledWith("total");
+    expect(result.data).toEqual({
+      count: 4,
+      sum: { total: 120 },
+      average: { total: 30 },
+    });
+    expect(mockCache.set).toHaveBeenCalledWith(
+      expect.stringContaining('"type":"aggregate"'),
+      result.data
+    );
+  });
+
+  test("should return cached results", async () => {
+    const cachedData = { count: 2, sum: {}, average: {} };
+    mockCache.get.mockReturnValue(cachedData);
+
+    const result = await aggregateData({ path: "orders" });
+
+    expect(getAggregateFromServer).not.toHaveBeenCalled();
+    expect(result.data).toEqual(cachedData);
+  });
+
+  test("should handle errors and return error object", async () => {
+    (getAggregateFromServer as jest.Mock).mockImplementation(() =>
+      Promise.reject(new Error("Aggregation failed"))
+    );
+
+    const result = await aggregateData({ path: "orders" });
+
+    expect(result.data).toBeNull();
+    expect(result.error?.message).toContain("Aggregation failed");
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, test, expect, jest, beforeEach } from "@jest/globals";
+import { batchData } from "../core/operations/batch";
+import { registerValidator } from "../core/validation";
+import { getFirebaseInstance } from "../core/firebase";
+import { doc, collection, writeBatch } from "firebase/firestore";
+import { ValidationError } from "../errors";
+
+// Definice typu pro mock funkce
+type MockFunction<T = any> = jest.MockedFunction<(...args: any[]) => T>;
+
+const mockCache = {
+  remove: jest.fn(),
+  invalidateCollection: jest.fn(),
+};
+
+jest.mock("../core/firebase", () => ({
+  getFirebaseInstance: jest.fn(),
+}));
+
+jest.mock("../cache/cacheManager", () => ({
+  CacheManager: {
+    getInstance: jest.fn(() => mockCache),
+    createKey: jest.fn(
+      (path, options) => `${path}:${JSON.stringify(options)}`
+    ),
+  },
+}));
+
+jest.mock("firebase/firestore", () => ({
+  doc: jest.fn(),
+  collection: jest.fn(),
+  writeBatch: jest.fn(),
+}));
+
+describe("batchData Function", () => {
+  const mockFirestore = {};
+  let mockBatch: {
+    set: jest.Mock;
+    update: jest.Mock;
+    delete: jest.Mock;
+    commit: jest.Mock;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    (getFirebaseInstance as MockFunction).mockReturnValue({
+      app: {},
+      firestore: mockFirestore,
+    });
+    (doc as MockFunction).mockImplementation((_parent, path?: string) => ({
+      id: path ? path.split("/").pop() : "auto-id",
+    }));
+    (collection as MockFunction).mockReturnValue({ id: "collection" });
+
+    mockBatch = {
+      set: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      commit: jest.fn(() => Promise.resolve()),
+    };
+    (writeBatch as MockFunction).mockReturnValue(mockBatch);
+  });
+
+  test("should queue and commit operations in a single batch", async () => {
+    const result = await batchData()
+      .create({ path: "users", data: { name: "New" } })
+      .update({ path: "users", docId: "user1", data: { name: "Updated" } })
+      .update({
+        path: "users",
+        docId: "user2",
+        data: { name: "Replaced" },
+        merge: false,
+      })
+      .remove({ path: "posts", docId: "post1" })
+      .commit();
+
+    expect(mockBatch.set).toHaveBeenCalledTimes(2);
+    expect(mockBatch.update).toHaveBeenCalledWith(
+      { id: "user1" },
+      { name: "Updated" }
+    );
+    expect(mockBatch.delete).toHaveBeenCalledWith({ id: "post1" });
+    expect(mockBatch.commit).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({
+      data: {
+        writeCount: 4,
+        batchCount: 1,
+        ids: ["auto-id", "user1", "user2", "post1"],
+      },
+      error: null,
+      loading: false,
+    });
+  });
+
+  test("should split batches larger than 500 operations", async () => {
+    const batch = batchData();
+    for (let i = 0; i < 501; i++) {
+      batch.remove({ path: "logs", docId: `log${i}` });
+    }
+
+    const result = await batch.commit();
+
+    expect(writeBatch).toHaveBeenCalledTimes(2);
+    expect(mockBatch.commit).toHaveBeenCalledTimes(2);
+    expect(result.data?.batchCount).toBe(2);
+    expect(result.data?.writeCount).toBe(501);
+  });
+
+  test("should report the committed chunks when a later chunk fails", async () => {
+    mockBatch.commit
+      .mockImplementationOnce(() => Promise.resolve())
+      .mockImplementationOnce(() =>
+        Promise.reject(new Error("Commit failed"))
+      );
+    const batch = batchData();
+    for (let i = 0; i < 502; i++) {
+      batch.remove({ path: "logs", docId: `log${i}` });
+    }
+
+    const result = await batch.commit();
+
+    expect(result.error?.message).toBe("Commit failed");
+    expect(result.data?.writeCount).toBe(500);
+    expect(result.data?.batchCount).toBe(1);
+    expect(result.data?.ids).toHaveLength(500);
+    expect(result.data?.ids[499]).toBe("log499");
+    expect(mockCache.invalidateCollection).toHaveBeenCalledTimes(1);
+  });
+
+  test("should invalidate cache only after the commit succeeds", async () => {
+    mockBatch.commit.mockImplementation(() => {
+      expect(mockCache.invalidateCollection).not.toHaveBeenCalled();
+      return Promise.resolve();
+    });
+
+    await batchData()
+      .update({ path: "users", docId: "user1", data: { name: "Updated" } })
+      .commit();
+
+    expect(mockCache.remove).toHaveBeenCalledWith(
+      'users:{"docId":"user1"}'
+    );
+    expect(mockCache.invalidateCollection).toHaveBeenCalledWith(
+      "users",
+      undefined
+    );
+  });
+
+  test("should not invalidate cache when the commit fails", async () => {
+    mockBatch.commit.mockImplementation(() =>
+      Promise.reject(new Error("Commit failed"))
+    );
+
+    const result = await batchData()
+      .remove({ path: "users", docId: "user1" })
+      .commit();
+
+    expect(result.data).toBeNull();
+    expect(result.error?.message).toContain("Commit failed");
+    expect(mockCache.invalidateCollection).not.toHaveBeenCalled();
+  });
+
+  test("should validate queued operations before writing", async () => {
+    const result = await batchData()
+      .create({ path: "users", data: { name: "New" } })
+      .update({ path: "users", docId: "", data: { name: "Updated" } })
+      .commit();
+
+    expect(result.error?.message).toContain("DocId parameter is required");
+    expect(mockBatch.commit).not.toHaveBeenCalled();
+  });
+
+  test("should run registered validators before writing", async () => {
+    const remove = registerValidator("users/{uid}", async (user) =>
+      typeof user.name === "string"
+        ? []
+        : [{ path: ["name"], message: "Required" }]
+    );
+
+    const valid = await batchData()
+      .update({ path: "users", docId: "user1", data: { age: 30 } })
+      .commit();
+    const invalid = await batchData()
+      .create({ path: "users", docId: "user2", data: { name: "New" } })
+      .update({
+        path: "users",
+        docId: "user1",
+        data: { age: 30 },
+        merge: false,
+      })
+      .commit();
+    remove();
+
+    expect(valid.error).toBeNull();
+    expect(invalid.error).toBeInstanceOf(ValidationError);
+    expect(invalid.error?.message).toContain("users/user1: name: Required");
+    expect(mockBatch.commit).toHaveBeenCalledTimes(1);
+  });
+});
@@ -64,6 +64,17 @@ describe("CacheManager", () => {
       expect(customCache.get("key1")).toBeNull();
     });
 
+    test("should return expired items from getStale", () => {
+      jest.useFakeTimers();
+
+      customCache = CacheManager.getInstance({ ttl: 1000 });
+      customCache.set("key1", "value1");
+
+      jest.advanceTimersByTime(2000);
+
+      expect(customCache.getStale("key1")).toBe("value1");
+    });
+
     test("should disable cache when enabled is false", () => {
       customCache = CacheManager.getInstance({
         enabled: false,
@@ -127,5 +138,65 @@ describe("CacheManager", () => {
       expect(customCache.get("users:456")).toBeNull();
       expect(customCache.get("posts:789")).not.toBeNull();
     });
+
+    test("should invalidate collection group entries on writes to a subcollection", () => {
+      const groupKey = CacheManager.createKey("comments", {
+        collectionGroup: true,
+      });
+      customCache.set(groupKey, []);
+
+      customCache.invalidateCollection("posts/post1/comments");
+
+      expect(groupKey).toBe("**/comments:{}");
+      expect(customCache.get(groupKey)).toBeNull();
+    });
+
+    test("should scope keys and invalidation to named instances", () => {
+      const defaultKey = CacheManager.createKey("users", {});
+      const namedKey = CacheManager.createKey("users", {
+        instance: "analytics",
+      });
+      customCache.set(defaultKey, []);
+      customCache.set(namedKey, []);
+
+      customCache.invalidateCollection("users", "analytics");
+
+      expect(namedKey).toBe("@analytics/users:{}");
+      expect(customCache.get(namedKey)).toBeNull();
+      expect(customCache.get(defaultKey)).not.toBeNull();
+    });
+
+    test("should invalidate all entries of an instance", () => {
+      const defaultKey = CacheManager.createKey("users", {});
+      const namedKey = CacheManager.createKey("users", {
+        instance: "analytics",
+      });
+      const otherKey = CacheManager.createKey("events", { instance: "legacy" });
+      customCache.set(defaultKey, []);
+      customCache.set(namedKey, []);
+      customCache.set(otherKey, []);
+
+      customCache.invalidateInstance("analytics");
+      expect(customCache.get(namedKey)).toBeNull();
+      expect(customCache.get(defaultKey)).not.toBeNull();
+
+      customCache.invalidateInstance();
+      expect(customCache.get(defaultKey)).toBeNull();
+      expect(customCache.get(otherKey)).not.toBeNull();
+    });
+
+    test("should invalidate aggregation entries with their collection", () => {
+      const aggregateKey = CacheManager.createKey("orders", {
+        type: "aggregate",
+        count: true,
+      });
+      customCache.set(aggregateKey, { count: 3, sum: {}, average: {} });
+      customCache.set("products:{}", []);
+
+      customCache.invalidateCollection("orders");
+
+      expect(customCache.get(aggregateKey)).toBeNull();
+      expect(customCache.get("products:{}")).not.toBeNull();
+    });
   });
 });
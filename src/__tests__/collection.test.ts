@@ -0,0 +1,130 @@
+import { describe, test, expect, jest, beforeEach } from "@jest/globals";
+import { defineCollection } from "../core/collection";
+import { getData } from "../core/operations/getData";
+import { createData } from "../core/operations/createData";
+import { updateData } from "../core/operations/updateData";
+import { deleteData } from "../core/operations/deleteData";
+import { listenData } from "../core/operations/listenData";
+import { ValidationError } from "../errors";
+
+jest.mock("../core/operations/getData", () => ({
+  getData: jest.fn(async () => ({
+    data: null,
+    error: null,
+    loading: false,
+  })),
+}));
+jest.mock("../core/operations/createData", () => ({
+  createData: jest.fn(async () => ({
+    data: null,
+    error: null,
+    loading: false,
+  })),
+}));
+jest.mock("../core/operations/updateData", () => ({
+  updateData: jest.fn(async () => ({
+    data: null,
+    error: null,
+    loading: false,
+  })),
+}));
+jest.mock("../core/operations/deleteData", () => ({
+  deleteData: jest.fn(async () => ({
+    data: null,
+    error: null,
+    loading: false,
+  })),
+}));
+jest.mock("../core/operations/listenData", () => ({
+  listenData: jest.fn(() => jest.fn()),
+}));
+
+interface Member {
+  name: string;
+  role: "admin" | "member";
+}
+
+describe("Typed Collections", () => {
+  const members = defineCollection<Member>()("orgs/{orgId}/members");
+  const params = { orgId: "acme" };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test("should resolve the path template", () => {
+    expect(members.template).toBe("orgs/{orgId}/members");
+    expect(members.path(params)).toBe("orgs/acme/members");
+    expect(defineCollection("users").path()).toBe("users");
+    expect(defineCollection<Member>("users").path()).toBe("users");
+  });
+
+  test("should run get and list with the resolved path", async () => {
+    await members.get({ params, docId: "john", cacheTTL: 0 });
+    await members.list({ params, where: [["role", "==", "admin"]] });
+
+    expect(getData).toHaveBeenNthCalledWith(1, {
+      path: "orgs/acme/members",
+      docId: "john",
+      cacheTTL: 0,
+    });
+    expect(getData).toHaveBeenNthCalledWith(2, {
+      path: "orgs/acme/members",
+      where: [["role", "==", "admin"]],
+    });
+  });
+
+  test("should run create, update and remove with the resolved path", async () => {
+    await members.create({ params, data: { name: "John", role: "member" } });
+    await members.update({ params, docId: "john", data: { role: "admin" } });
+    await members.remove({ params, docId: "john" });
+
+    expect(createData).toHaveBeenCalledWith({
+      path: "orgs/acme/members",
+      data: { name: "John", role: "member" },
+    });
+    expect(updateData).toHaveBeenCalledWith({
+      path: "orgs/acme/members",
+      docId: "john",
+      data: { role: "admin" },
+    });
+    expect(deleteData).toHaveBeenCalledWith({
+      path: "orgs/acme/members",
+      docId: "john",
+    });
+  });
+
+  test("should return a ValidationError for invalid parameters", async () => {
+    const result = await members.get({
+      params: { orgId: "acme/other" },
+      docId: "john",
+    });
+
+    expect(result.data).toBeNull();
+    expect(result.error).toBeInstanceOf(ValidationError);
+    expect(getData).not.toHaveBeenCalled();
+  });
+
+  test("should start listeners with the resolved path", () => {
+    const onNext = jest.fn();
+    members.listen({ params, onNext });
+
+    expect(listenData).toHaveBeenCalledWith({
+      path: "orgs/acme/members",
+      onNext,
+    });
+  });
+
+  test("should pass invalid listener parameters to onError", () => {
+    const onError = jest.fn();
+    const unsubscribe = members.listen({
+      params: { orgId: "" },
+      onNext: jest.fn(),
+      onError,
+    });
+
+    expect(onError).toHaveBeenCalledWith(expect.any(ValidationError));
+    expect(listenData).not.toHaveBeenCalled();
+    expect(() => unsubscribe()).not.toThrow();
+  });
+});
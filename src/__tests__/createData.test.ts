@@ -17,6 +17,8 @@ import {
 } from "firebase/firestore";
 import { Result } from "../types";
 import { CacheManager } from "../cache/cacheManager";
+import { serverTimestamp } from "../utils/fieldTransforms";
+import { configureTimestamps, resetTimestamps } from "../core/timestamps";
 
 // Definice typu pro mock funkce
 type MockFunction<T = any> = jest.MockedFunction<(...args: any[]) => T>;
@@ -39,6 +41,7 @@ jest.mock("firebase/firestore", () => {
     collection: jest.fn(),
     doc: jest.fn(),
     setDoc: jest.fn().mockImplementation(() => Promise.resolve()),
+    serverTimestamp: jest.fn(() => ({ _sentinel: "serverTimestamp" })),
   };
 });
 
@@ -160,6 +163,53 @@ describe("createData Function", () => {
     });
   });
 
+  describe("Field Transforms", () => {
+    test("should write sentinels and echo resolved values", async () => {
+      const mockDocRef = { id: "post-id" } as DocumentReference<DocumentData>;
+      (doc as MockFunction).mockReturnValue(mockDocRef);
+
+      const result = await createData({
+        path: "posts",
+        data: { title: "Hello", createdAt: serverTimestamp() },
+      });
+
+      expect(setDoc).toHaveBeenCalledWith(mockDocRef, {
+        title: "Hello",
+        createdAt: { _sentinel: "serverTimestamp" },
+      });
+      expect(result.data).toEqual({
+        id: "post-id",
+        title: "Hello",
+        createdAt: expect.any(Date),
+      });
+    });
+  });
+
+  describe("Timestamps", () => {
+    afterEach(() => {
+      resetTimestamps();
+    });
+
+    test("should stamp createdAt and updatedAt and echo them", async () => {
+      configureTimestamps(true);
+      const mockDocRef = { id: "post-id" } as DocumentReference<DocumentData>;
+      (doc as MockFunction).mockReturnValue(mockDocRef);
+
+      const result = await createData({
+        path: "posts",
+        data: { title: "Hello" },
+      });
+
+      const written = (setDoc as MockFunction).mock.calls[0][1];
+      expect(written).toEqual({
+        title: "Hello",
+        createdAt: expect.any(Date),
+        updatedAt: expect.any(Date),
+      });
+      expect(result.data).toEqual({ id: "post-id", ...written });
+    });
+  });
+
   describe("Error Handling", () => {
     test("should handle errors and return error object", async () => {
       const mockError = new Error("Test error");
@@ -0,0 +1,123 @@
+import { describe, test, expect, jest, beforeEach } from "@jest/globals";
+import { createMany } from "../core/operations/createMany";
+import { getFirebaseInstance } from "../core/firebase";
+import { collection, doc, writeBatch } from "firebase/firestore";
+import { NetworkError, ValidationError } from "../errors";
+
+// Definice typu pro mock funkce
+type MockFunction<T = any> = jest.MockedFunction<(...args: any[]) => T>;
+
+const mockCache = {
+  invalidateCollection: jest.fn(),
+};
+
+jest.mock("../core/firebase", () => ({
+  getFirebaseInstance: jest.fn(),
+}));
+
+jest.mock("../cache/cacheManager", () => ({
+  CacheManager: {
+    getInstance: jest.fn(() => mockCache),
+  },
+}));
+
+describe("createMany Function", () => {
+  let batches: Array<{ set: jest.Mock; commit: jest.Mock }>;
+  let autoId: number;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getFirebaseInstance as MockFunction).mockReturnValue({
+      app: {},
+      firestore: {},
+    });
+    autoId = 0;
+    (collection as MockFunction).mockReturnValue({ path: "products" });
+    (doc as MockFunction).mockImplementation((_parent, path?: string) => ({
+      id: path ? path.split("/").pop() : `auto-${autoId++}`,
+    }));
+
+    batches = [];
+    (writeBatch as MockFunction).mockImplementation(() => {
+      const batch = {
+        set: jest.fn(),
+        commit: jest.fn(() => Promise.resolve()),
+      };
+      batches.push(batch);
+      return batch;
+    });
+  });
+
+  test("should create documents in chunks and invalidate the cache once", async () => {
+    const items = Array.from({ length: 5 }, (_, index) => ({
+      name: `P${index}`,
+    }));
+
+    const result = await createMany({
+      path: "products",
+      items,
+      chunkSize: 2,
+      concurrency: 2,
+    });
+
+    expect(batches).toHaveLength(3);
+    expect(batches.map((batch) => batch.set.mock.calls.length)).toEqual([
+      2, 2, 1,
+    ]);
+    expect(result.error).toBeNull();
+    expect(result.data?.created).toBe(5);
+    expect(result.data?.items[0]).toEqual({
+      index: 0,
+      id: "auto-0",
+      error: null,
+    });
+    expect(mockCache.invalidateCollection).toHaveBeenCalledTimes(1);
+    expect(mockCache.invalidateCollection).toHaveBeenCalledWith(
+      "products",
+      undefined
+    );
+  });
+
+  test("should use the ID field and report items without an ID", async () => {
+    const result = await createMany({
+      path: "products",
+      items: [{ sku: "A1", name: "Apple" }, { sku: "", name: "Pear" }],
+      idField: "sku",
+    });
+
+    expect(doc).toHaveBeenCalledWith({}, "products/A1");
+    expect(result.data?.created).toBe(1);
+    expect(result.data?.items[1]).toEqual({
+      index: 1,
+      id: null,
+      error: expect.any(ValidationError),
+    });
+    expect(result.error).toBeInstanceOf(ValidationError);
+  });
+
+  test("should fail the items of a failed batch only", async () => {
+    (writeBatch as MockFunction).mockImplementationOnce(() => ({
+      set: jest.fn(),
+      commit: jest.fn(() =>
+        Promise.reject(new NetworkError("Network unavailable"))
+      ),
+    }));
+
+    const result = await createMany({
+      path: "products",
+      items: [{ name: "A" }, { name: "B" }, { name: "C" }],
+      chunkSize: 2,
+      concurrency: 1,
+      retry: false,
+    });
+
+    expect(result.data?.created).toBe(1);
+    expect(result.data?.failed).toBe(2);
+    expect(result.data?.items.map((item) => item.error)).toEqual([
+      expect.any(NetworkError),
+      expect.any(NetworkError),
+      null,
+    ]);
+    expect(result.error).toBeInstanceOf(NetworkError);
+  });
+});
@@ -0,0 +1,211 @@
+import {
+  describe,
+  test,
+  expect,
+  jest,
+  beforeEach,
+  afterEach,
+} from "@jest/globals";
+import { listenData } from "../core/operations/listenData";
+import { unsubscribeAll } from "../core/listenerRegistry";
+import { diffDocuments } from "../core/delivery";
+import { getFirebaseInstance } from "../core/firebase";
+import { onSnapshot } from "firebase/firestore";
+import { ValidationError } from "../errors";
+
+// Definice typu pro mock funkce
+type MockFunction<T = any> = jest.MockedFunction<(...args: any[]) => T>;
+
+const mockCache = {
+  invalidateByPath: jest.fn(),
+  invalidateCollection: jest.fn(),
+};
+
+jest.mock("../core/firebase", () => ({
+  getFirebaseInstance: jest.fn(),
+  DEFAULT_INSTANCE: "[DEFAULT]",
+}));
+
+jest.mock("../cache/cacheManager", () => ({
+  CacheManager: {
+    getInstance: jest.fn(() => mockCache),
+    createKey: jest.fn(
+      (path, options) => `${path}:${JSON.stringify(options)}`
+    ),
+  },
+}));
+
+/**
+ * Creates a query snapshot of the orders collection
+ * Each change is given as [type, id, price]
+ */
+const createSnapshot = (
+  docs: Array<[string, number]>,
+  changes: Array<[string, string, number]> = []
+) => {
+  const createDoc = (id: string, price: number) => ({
+    id,
+    ref: { path: `orders/${id}` },
+    exists: () => true,
+    data: () => ({ price }),
+  });
+  return {
+    empty: docs.length === 0,
+    docs: docs.map(([id, price]) => createDoc(id, price)),
+    docChanges: () =>
+      changes.map(([type, id, price]) => ({ type, doc: createDoc(id, price) })),
+  };
+};
+
+describe("Listener delivery", () => {
+  let emit: (snapshot: unknown) => void;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    (getFirebaseInstance as MockFunction).mockReturnValue({
+      app: {},
+      firestore: {},
+    });
+    (onSnapshot as MockFunction).mockImplementation(
+      (_ref, _options, next) => {
+        emit = next;
+        return jest.fn();
+      }
+    );
+  });
+
+  afterEach(() => {
+    unsubscribeAll();
+    jest.useRealTimers();
+  });
+
+  test("should deliver the first snapshot at once and then throttle", () => {
+    const onNext = jest.fn();
+    listenData({ path: "orders", throttleMs: 100, onNext });
+
+    emit(createSnapshot([["o1", 10]]));
+    emit(createSnapshot([["o1", 11]]));
+    emit(createSnapshot([["o1", 12]]));
+
+    expect(onNext).toHaveBeenCalledTimes(1);
+    expect(onNext).toHaveBeenLastCalledWith([{ id: "o1", price: 10 }]);
+
+    jest.advanceTimersByTime(100);
+
+    expect(onNext).toHaveBeenCalledTimes(2);
+    expect(onNext).toHaveBeenLastCalledWith([{ id: "o1", price: 12 }]);
+  });
+
+  test("should debounce deliveries until the listener is quiet", () => {
+    const onNext = jest.fn();
+    listenData({ path: "orders", debounceMs: 50, onNext });
+
+    emit(createSnapshot([["o1", 10]]));
+    jest.advanceTimersByTime(40);
+    emit(createSnapshot([["o1", 11]]));
+    jest.advanceTimersByTime(40);
+
+    expect(onNext).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(10);
+
+    expect(onNext).toHaveBeenCalledTimes(1);
+    expect(onNext).toHaveBeenCalledWith([{ id: "o1", price: 11 }]);
+  });
+
+  test("should merge the changes of coalesced snapshots", () => {
+    const onChanges = jest.fn();
+    listenData({ path: "orders", throttleMs: 100, onChanges });
+
+    emit(
+      createSnapshot(
+        [
+          ["o1", 10],
+          ["o2", 20],
+        ],
+        [
+          ["added", "o1", 10],
+          ["added", "o2", 20],
+        ]
+      )
+    );
+    emit(
+      createSnapshot(
+        [
+          ["o2", 21],
+          ["o3", 30],
+        ],
+        [
+          ["removed", "o1", 10],
+          ["modified", "o2", 21],
+          ["added", "o3", 30],
+        ]
+      )
+    );
+    emit(createSnapshot([["o2", 21]], [["removed", "o3", 30]]));
+    jest.advanceTimersByTime(100);
+
+    expect(onChanges).toHaveBeenCalledTimes(2);
+    expect(onChanges).toHaveBeenLastCalledWith([
+      {
+        type: "removed",
+        doc: { id: "o1", price: 10 },
+        oldIndex: 0,
+        newIndex: -1,
+      },
+      {
+        type: "modified",
+        doc: { id: "o2", price: 21 },
+        oldIndex: 0,
+        newIndex: 0,
+      },
+    ]);
+  });
+
+  test("should cancel a pending delivery on unsubscribe", () => {
+    const onNext = jest.fn();
+    const unsubscribe = listenData({ path: "orders", debounceMs: 50, onNext });
+
+    emit(createSnapshot([["o1", 10]]));
+    unsubscribe();
+    jest.advanceTimersByTime(50);
+
+    expect(onNext).not.toHaveBeenCalled();
+  });
+
+  test("should reject debounceMs combined with throttleMs", () => {
+    const onError = jest.fn();
+    listenData({
+      path: "orders",
+      debounceMs: 50,
+      throttleMs: 100,
+      onNext: jest.fn(),
+      onError,
+    });
+
+    expect(onError).toHaveBeenCalledWith(expect.any(ValidationError));
+  });
+
+  test("should compute changes that rebuild the new list in order", () => {
+    const toDocs = (paths: string[]) =>
+      paths.map((path) => ({ path, doc: path }));
+    const previous = ["a", "b", "c", "d"];
+    const next = ["x", "c", "a", "d"];
+
+    const changes = diffDocuments(
+      toDocs(previous),
+      toDocs(next),
+      new Set(["a"])
+    );
+
+    const rebuilt = [...previous];
+    changes.forEach(({ type, doc, oldIndex, newIndex }) => {
+      if (type !== "added") rebuilt.splice(oldIndex, 1);
+      if (type !== "removed") rebuilt.splice(newIndex, 0, doc);
+    });
+
+    expect(rebuilt).toEqual(next);
+    expect(changes.map((change) => change.doc)).not.toContain("d");
+  });
+});
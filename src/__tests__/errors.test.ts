@@ -0,0 +1,81 @@
+import { describe, test, expect } from "@jest/globals";
+import {
+  handleError,
+  FirestoreHelperError,
+  PermissionError,
+  NotFoundError,
+  NetworkError,
+  TimeoutError,
+  ValidationError,
+  AlreadyExistsError,
+  FailedPreconditionError,
+  ResourceExhaustedError,
+  AbortedError,
+} from "../errors";
+
+/**
+ * Creates an error shaped like the FirebaseError thrown by the SDK
+ */
+const firebaseError = (code: string, message = `Firebase error: ${code}`) =>
+  Object.assign(new Error(message), { name: "FirebaseError", code });
+
+describe("handleError", () => {
+  test.each([
+    ["permission-denied", PermissionError],
+    ["unauthenticated", PermissionError],
+    ["not-found", NotFoundError],
+    ["already-exists", AlreadyExistsError],
+    ["failed-precondition", FailedPreconditionError],
+    ["resource-exhausted", ResourceExhaustedError],
+    ["aborted", AbortedError],
+    ["unavailable", NetworkError],
+    ["deadline-exceeded", TimeoutError],
+    ["invalid-argument", ValidationError],
+  ])("should map FirebaseError code %s", (code, ErrorType) => {
+    const original = firebaseError(code);
+    const result = handleError(original);
+
+    expect(result).toBeInstanceOf(ErrorType);
+    expect(result.originalError).toBe(original);
+  });
+
+  test("should strip the service prefix from the code", () => {
+    const result = handleError(firebaseError("firestore/permission-denied"));
+    expect(result).toBeInstanceOf(PermissionError);
+  });
+
+  test("should keep unmapped Firebase codes", () => {
+    const result = handleError(firebaseError("cancelled"));
+
+    expect(result.constructor).toBe(FirestoreHelperError);
+    expect(result.code).toBe("cancelled");
+  });
+
+  test("should carry the index creation URL of a missing index", () => {
+    const url =
+      "https://console.firebase.google.com/v1/r/project/demo/firestore/indexes?create_composite=abc";
+    const result = handleError(
+      firebaseError(
+        "failed-precondition",
+        `The query requires an index. You can create it here: ${url}`
+      )
+    );
+
+    expect(result).toBeInstanceOf(FailedPreconditionError);
+    expect((result as FailedPreconditionError).indexUrl).toBe(url);
+  });
+
+  test("should fall back to the message for errors without a code", () => {
+    expect(handleError(new Error("network request failed"))).toBeInstanceOf(
+      NetworkError
+    );
+    expect(handleError(new Error("Something broke")).code).toBe(
+      "unknown_error"
+    );
+  });
+
+  test("should return helper errors unchanged", () => {
+    const error = new ValidationError("Invalid");
+    expect(handleError(error)).toBe(error);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, test, expect } from "@jest/globals";
+import {
+  FieldTransform,
+  increment,
+  arrayUnion,
+  arrayRemove,
+  serverTimestamp,
+  deleteField,
+  hasFieldTransforms,
+  toFirestoreData,
+  resolveFieldTransforms,
+} from "../utils/fieldTransforms";
+
+describe("Field Transforms", () => {
+  describe("toFirestoreData", () => {
+    test("should convert helper transforms to Firestore sentinels", () => {
+      const result = toFirestoreData({
+        name: "Post",
+        views: increment(1),
+        tags: arrayUnion("a", "b"),
+        removed: arrayRemove("c"),
+        stats: { updatedAt: serverTimestamp() },
+        draft: deleteField(),
+      });
+
+      expect(result).toEqual({
+        name: "Post",
+        views: { _sentinel: "increment", amount: 1 },
+        tags: { _sentinel: "arrayUnion", elements: ["a", "b"] },
+        removed: { _sentinel: "arrayRemove", elements: ["c"] },
+        stats: { updatedAt: { _sentinel: "serverTimestamp" } },
+        draft: { _sentinel: "deleteField" },
+      });
+    });
+
+    test("should return data without transforms unchanged", () => {
+      const data = { name: "Post", createdAt: new Date(0) };
+      expect(toFirestoreData(data)).toBe(data);
+    });
+  });
+
+  describe("resolveFieldTransforms", () => {
+    test("should resolve timestamps and drop deleted fields", () => {
+      const result = resolveFieldTransforms({
+        name: "Post",
+        updatedAt: serverTimestamp(),
+        draft: deleteField(),
+        views: increment(2),
+      });
+
+      expect(result.updatedAt).toBeInstanceOf(Date);
+      expect(result).not.toHaveProperty("draft");
+      expect(result.views).toBeInstanceOf(FieldTransform);
+      expect(result.views).toEqual(
+        expect.objectContaining({ type: "increment", operand: 2 })
+      );
+    });
+  });
+
+  describe("hasFieldTransforms", () => {
+    test("should detect nested transforms by type", () => {
+      const data = { stats: { views: increment(1) } };
+
+      expect(hasFieldTransforms(data)).toBe(true);
+      expect(hasFieldTransforms(data, ["increment"])).toBe(true);
+      expect(hasFieldTransforms(data, ["arrayUnion"])).toBe(false);
+      expect(hasFieldTransforms({ tags: ["a"] })).toBe(false);
+    });
+  });
+});
@@ -2,18 +2,36 @@ import { describe, test, expect, jest, afterEach } from "@jest/globals";
 import {
   initializeFirebase,
   getFirebaseInstance,
+  getInstanceNames,
   resetFirebase,
 } from "../core/firebase";
-import { initializeApp } from "firebase/app";
-import { getFirestore } from "firebase/firestore";
+import { initializeApp, deleteApp } from "firebase/app";
+import {
+  getFirestore,
+  connectFirestoreEmulator,
+  terminate,
+} from "firebase/firestore";
 
 // Mock moduly
 jest.mock("firebase/app", () => ({
   initializeApp: jest.fn().mockReturnValue({ name: "test-app" }),
+  deleteApp: jest.fn(() => Promise.resolve()),
+}));
+
+const mockCache = {
+  invalidateInstance: jest.fn(),
+};
+
+jest.mock("../cache/cacheManager", () => ({
+  CacheManager: {
+    getInstance: jest.fn(() => mockCache),
+  },
 }));
 
 jest.mock("firebase/firestore", () => ({
   getFirestore: jest.fn().mockReturnValue({ name: "test-firestore" }),
+  connectFirestoreEmulator: jest.fn(),
+  terminate: jest.fn(() => Promise.resolve()),
 }));
 
 describe("Firebase Core Functions", () => {
@@ -23,8 +41,9 @@ describe("Firebase Core Functions", () => {
     projectId: "test-project",
   };
 
-  afterEach(() => {
-    resetFirebase();
+  afterEach(async () => {
+    await resetFirebase();
+    delete process.env.FIRESTORE_EMULATOR_HOST;
     jest.clearAllMocks();
   });
 
@@ -60,4 +79,107 @@ describe("Firebase Core Functions", () => {
       "Firebase is not initialized. Please call initializeFirebase() first."
     );
   });
+
+  describe("Emulator", () => {
+    test("should connect to the emulator from options", () => {
+      initializeFirebase(mockConfig, {
+        emulator: { host: "localhost", port: 8080 },
+      });
+
+      expect(connectFirestoreEmulator).toHaveBeenCalledWith(
+        { name: "test-firestore" },
+        "localhost",
+        8080
+      );
+    });
+
+    test("should detect the emulator from FIRESTORE_EMULATOR_HOST", () => {
+      process.env.FIRESTORE_EMULATOR_HOST = "127.0.0.1:9090";
+
+      initializeFirebase(mockConfig);
+
+      expect(connectFirestoreEmulator).toHaveBeenCalledWith(
+        { name: "test-firestore" },
+        "127.0.0.1",
+        9090
+      );
+    });
+
+    test("should ignore the environment variable when emulator is false", () => {
+      process.env.FIRESTORE_EMULATOR_HOST = "127.0.0.1:9090";
+
+      initializeFirebase(mockConfig, { emulator: false });
+
+      expect(connectFirestoreEmulator).not.toHaveBeenCalled();
+    });
+
+    test("should not connect to the emulator by default", () => {
+      initializeFirebase(mockConfig);
+      expect(connectFirestoreEmulator).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Named instances", () => {
+    test("should initialize a named app with a named database", () => {
+      initializeFirebase(mockConfig, {
+        name: "analytics",
+        databaseId: "analytics-db",
+      });
+
+      expect(initializeApp).toHaveBeenCalledWith(mockConfig, "analytics");
+      expect(getFirestore).toHaveBeenCalledWith(
+        { name: "test-app" },
+        "analytics-db"
+      );
+      expect(getFirebaseInstance("analytics")).toBeDefined();
+    });
+
+    test("should keep named instances separate from the default one", () => {
+      initializeFirebase(mockConfig, { name: "analytics" });
+
+      expect(() => getFirebaseInstance()).toThrowError(
+        "Firebase is not initialized. Please call initializeFirebase() first."
+      );
+      expect(() => getFirebaseInstance("other")).toThrowError(
+        'Firebase instance "other" is not initialized.'
+      );
+    });
+
+    test("should list and reset instances by name", async () => {
+      initializeFirebase(mockConfig);
+      initializeFirebase(mockConfig, { name: "analytics" });
+      expect(getInstanceNames()).toEqual(["[DEFAULT]", "analytics"]);
+
+      await resetFirebase("analytics");
+
+      expect(getInstanceNames()).toEqual(["[DEFAULT]"]);
+      expect(mockCache.invalidateInstance).toHaveBeenCalledTimes(1);
+      expect(mockCache.invalidateInstance).toHaveBeenCalledWith("analytics");
+      expect(() => getFirebaseInstance()).not.toThrow();
+    });
+  });
+
+  test("resetFirebase should terminate Firestore and delete the app", async () => {
+    initializeFirebase(mockConfig);
+
+    await resetFirebase();
+
+    expect(terminate).toHaveBeenCalledWith({ name: "test-firestore" });
+    expect(deleteApp).toHaveBeenCalledWith({ name: "test-app" });
+  });
+
+  test("should delete the old app before an un-awaited reset is followed by initialize", async () => {
+    initializeFirebase(mockConfig);
+
+    const reset = resetFirebase();
+    initializeFirebase(mockConfig);
+    await reset;
+
+    const [initializeOrder] = (initializeApp as jest.Mock).mock
+      .invocationCallOrder.slice(-1);
+    const [deleteOrder] = (deleteApp as jest.Mock).mock.invocationCallOrder;
+    expect(deleteApp).toHaveBeenCalledTimes(1);
+    expect(deleteOrder).toBeLessThan(initializeOrder);
+    expect(() => getFirebaseInstance()).not.toThrow();
+  });
 });
@@ -10,9 +10,12 @@ import {
   doc,
   getDoc,
   getDocs,
+  collectionGroup,
 } from "firebase/firestore";
 import type { GetDataOptions } from "../core/operations/getData";
-import { NotFoundError } from "../errors";
+import { NotFoundError, TimeoutError } from "../errors";
+import { decodeCursor, encodeCursor } from "../utils/cursors";
+import { PaginatedData } from "../types";
 
 // Mock Firebase
 jest.mock("../core/firebase");
@@ -21,6 +24,7 @@ jest.mock("firebase/firestore");
 // Create mock functions first
 const mockCache = {
   get: jest.fn(),
+  getStale: jest.fn(),
   set: jest.fn(),
   configure: jest.fn(),
 };
@@ -198,6 +202,45 @@ describe("getData Function", () => {
     });
   });
 
+  describe("Metadata", () => {
+    test("should return the snapshot metadata with includeMetadata", async () => {
+      mockCache.get.mockReturnValue(null);
+      (getDoc as jest.Mock).mockImplementation(() =>
+        Promise.resolve({
+          ...mockDoc,
+          metadata: { fromCache: false, hasPendingWrites: true },
+        })
+      );
+
+      const result = await getData({
+        path: "test-collection",
+        docId: "test-doc",
+        includeMetadata: true,
+      });
+
+      expect(result.metadata).toEqual({
+        fromCache: false,
+        hasPendingWrites: true,
+      });
+    });
+
+    test("should report cached results as fromCache", async () => {
+      mockCache.get.mockReturnValue([{ id: "doc1" }]);
+
+      const result = await getData({
+        path: "test-collection",
+        includeMetadata: true,
+      });
+      const withoutMetadata = await getData({ path: "test-collection" });
+
+      expect(result.metadata).toEqual({
+        fromCache: true,
+        hasPendingWrites: false,
+      });
+      expect(withoutMetadata).not.toHaveProperty("metadata");
+    });
+  });
+
   describe("Collection", () => {
     test("should get collection from Firestore", async () => {
       mockCache.get.mockReturnValue(null);
@@ -240,6 +283,122 @@ describe("getData Function", () => {
     });
   });
 
+  describe("Collection Group", () => {
+    test("should query all collections with the given ID", async () => {
+      mockCache.get.mockReturnValue(null);
+      (getDocs as jest.Mock).mockImplementation(() =>
+        Promise.resolve({
+          docs: [
+            {
+              id: "comment1",
+              exists: () => true,
+              data: () => ({ text: "Hello" }),
+              ref: { path: "posts/post1/comments/comment1" },
+            },
+          ],
+          empty: false,
+          size: 1,
+        })
+      );
+
+      const result = await getData({
+        path: "comments",
+        collectionGroup: true,
+      });
+
+      expect(collectionGroup).toHaveBeenCalledWith(mockFirestore, "comments");
+      expect(collection).not.toHaveBeenCalled();
+      expect(result.data).toEqual([
+        {
+          id: "comment1",
+          text: "Hello",
+          _path: "posts/post1/comments/comment1",
+        },
+      ]);
+    });
+
+    test("should reject docId in collection group queries", async () => {
+      const result = await getData({
+        path: "comments",
+        docId: "comment1",
+        collectionGroup: true,
+      });
+
+      expect(result.error?.code).toBe("validation_error");
+      expect(getDoc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Pagination", () => {
+    const pagedDocs = mockCollectionData.map((snapshot) => ({
+      ...snapshot,
+      get: jest.fn(() => snapshot.id.toUpperCase()),
+    }));
+
+    beforeEach(() => {
+      mockCache.get.mockReturnValue(null);
+      (getDocs as jest.Mock).mockImplementation(() =>
+        Promise.resolve({
+          docs: pagedDocs,
+          empty: false,
+          size: pagedDocs.length,
+        })
+      );
+    });
+
+    test("should return page items with a next cursor", async () => {
+      const result = await getData<PaginatedData<{ id: string }>>({
+        path: "test-collection",
+        orderBy: [["name", "asc"]],
+        limit: 1,
+        paginate: true,
+      });
+
+      expect(result.data?.items).toEqual([{ id: "doc1", name: "Document 1" }]);
+      expect(result.data?.prevCursor).toBeNull();
+      expect(decodeCursor(result.data!.nextCursor!)).toEqual(["DOC1", "doc1"]);
+    });
+
+    test("should return a previous cursor after the first page", async () => {
+      const result = await getData<PaginatedData<{ id: string }>>({
+        path: "test-collection",
+        limit: 5,
+        paginate: true,
+        startAfter: encodeCursor(["doc0"]),
+      });
+
+      expect(result.data?.items).toHaveLength(2);
+      expect(result.data?.nextCursor).toBeNull();
+      expect(decodeCursor(result.data!.prevCursor!)).toEqual(["doc1"]);
+    });
+
+    test("should include cursors in the cache key", async () => {
+      const cursor = encodeCursor(["doc1"]);
+
+      await getData({
+        path: "test-collection",
+        limit: 1,
+        paginate: true,
+        startAfter: cursor,
+      });
+
+      expect(mockCreateKey).toHaveBeenCalledWith(
+        "test-collection",
+        expect.objectContaining({ startAfter: cursor, paginate: true })
+      );
+    });
+
+    test("should return a validation error for a malformed cursor", async () => {
+      const result = await getData({
+        path: "test-collection",
+        paginate: true,
+        startAfter: "not-a-cursor",
+      });
+
+      expect(result.error?.code).toBe("validation_error");
+    });
+  });
+
   describe("Error Handling", () => {
     test("should handle errors and return error object", async () => {
       const testError = new Error("Test error");
@@ -258,5 +417,55 @@ describe("getData Function", () => {
         loading: false,
       });
     });
+
+    test("should return a TimeoutError when the read takes too long", async () => {
+      (getDoc as jest.Mock).mockImplementation(() => new Promise(() => {}));
+
+      const result = await getData({
+        path: "test-collection",
+        docId: "test-doc",
+        timeoutMs: 10,
+        retry: false,
+      });
+
+      expect(result.error).toBeInstanceOf(TimeoutError);
+      expect(result.data).toBeNull();
+    });
+
+    test("should fall back to expired cached data when the read times out", async () => {
+      (getDoc as jest.Mock).mockImplementation(() => new Promise(() => {}));
+      mockCache.getStale.mockReturnValue({ name: "Cached Document" });
+
+      const result = await getData({
+        path: "test-collection",
+        docId: "test-doc",
+        timeoutMs: 10,
+        retry: false,
+        fallbackToCache: true,
+      });
+
+      expect(result).toEqual({
+        data: { name: "Cached Document" },
+        error: null,
+        loading: false,
+        stale: true,
+      });
+    });
+
+    test("should not retry a read that timed out", async () => {
+      (getDoc as jest.Mock).mockImplementation(() => new Promise(() => {}));
+      mockCache.getStale.mockReturnValue({ name: "Cached Document" });
+
+      const result = await getData({
+        path: "test-collection",
+        docId: "test-doc",
+        timeoutMs: 10,
+        fallbackToCache: true,
+      });
+
+      expect(getDoc).toHaveBeenCalledTimes(1);
+      expect(result.data).toEqual({ name: "Cached Document" });
+      expect(result.stale).toBe(true);
+    });
   });
 });
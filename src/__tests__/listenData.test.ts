@@ -0,0 +1,209 @@
+import {
+  describe,
+  test,
+  expect,
+  jest,
+  beforeEach,
+  afterEach,
+} from "@jest/globals";
+import { listenData } from "../core/operations/listenData";
+import { unsubscribeAll } from "../core/listenerRegistry";
+import { getFirebaseInstance } from "../core/firebase";
+import { onSnapshot } from "firebase/firestore";
+import { ValidationError } from "../errors";
+
+// Definice typu pro mock funkce
+type MockFunction<T = any> = jest.MockedFunction<(...args: any[]) => T>;
+
+const mockCache = {
+  invalidateByPath: jest.fn(),
+  invalidateCollection: jest.fn(),
+};
+
+jest.mock("../core/firebase", () => ({
+  getFirebaseInstance: jest.fn(),
+  DEFAULT_INSTANCE: "[DEFAULT]",
+}));
+
+jest.mock("../cache/cacheManager", () => ({
+  CacheManager: {
+    getInstance: jest.fn(() => mockCache),
+    createKey: jest.fn(
+      (path, options) => `${path}:${JSON.stringify(options)}`
+    ),
+  },
+}));
+
+/**
+ * Creates a query document snapshot of the messages collection
+ */
+const createDoc = (id: string, data: Record<string, unknown>) => ({
+  id,
+  ref: { path: `messages/${id}` },
+  exists: () => true,
+  data: () => data,
+});
+
+/**
+ * Creates a query snapshot with the given documents and changes
+ */
+const createSnapshot = (
+  docs: ReturnType<typeof createDoc>[],
+  changes: Array<{
+    type: string;
+    doc: ReturnType<typeof createDoc>;
+    oldIndex: number;
+    newIndex: number;
+  }>
+) => ({
+  empty: docs.length === 0,
+  docs,
+  docChanges: () => changes,
+});
+
+describe("listenData", () => {
+  let emit: (snapshot: unknown) => void;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getFirebaseInstance as MockFunction).mockReturnValue({
+      app: {},
+      firestore: {},
+    });
+    (onSnapshot as MockFunction).mockImplementation(
+      (_ref, _options, next) => {
+        emit = next;
+        return jest.fn();
+      }
+    );
+  });
+
+  afterEach(() => {
+    unsubscribeAll();
+  });
+
+  test("should deliver the document changes of a collection", () => {
+    const onChanges = jest.fn();
+    listenData({ path: "messages", onChanges });
+
+    const first = createDoc("m1", { text: "Hello" });
+    emit(
+      createSnapshot(
+        [first],
+        [{ type: "added", doc: first, oldIndex: -1, newIndex: 0 }]
+      )
+    );
+
+    const edited = createDoc("m1", { text: "Hello!" });
+    const second = createDoc("m2", { text: "Hi" });
+    emit(
+      createSnapshot(
+        [second, edited],
+        [
+          { type: "added", doc: second, oldIndex: -1, newIndex: 0 },
+          { type: "modified", doc: edited, oldIndex: 0, newIndex: 1 },
+        ]
+      )
+    );
+
+    expect(onChanges).toHaveBeenNthCalledWith(1, [
+      {
+        type: "added",
+        doc: { id: "m1", text: "Hello" },
+        oldIndex: -1,
+        newIndex: 0,
+      },
+    ]);
+    expect(onChanges).toHaveBeenNthCalledWith(2, [
+      {
+        type: "added",
+        doc: { id: "m2", text: "Hi" },
+        oldIndex: -1,
+        newIndex: 0,
+      },
+      {
+        type: "modified",
+        doc: { id: "m1", text: "Hello!" },
+        oldIndex: 0,
+        newIndex: 1,
+      },
+    ]);
+  });
+
+  test("should call both onNext and onChanges", () => {
+    const onNext = jest.fn();
+    const onChanges = jest.fn();
+    listenData({ path: "messages", onNext, onChanges });
+
+    const removed = createDoc("m1", { text: "Hello" });
+    emit(
+      createSnapshot(
+        [removed],
+        [{ type: "added", doc: removed, oldIndex: -1, newIndex: 0 }]
+      )
+    );
+    emit(
+      createSnapshot(
+        [],
+        [{ type: "removed", doc: removed, oldIndex: 0, newIndex: -1 }]
+      )
+    );
+
+    expect(onNext).toHaveBeenLastCalledWith([]);
+    expect(onChanges).toHaveBeenLastCalledWith([
+      {
+        type: "removed",
+        doc: { id: "m1", text: "Hello" },
+        oldIndex: 0,
+        newIndex: -1,
+      },
+    ]);
+  });
+
+  test("should pass the snapshot metadata with includeMetadata", () => {
+    const onNext = jest.fn();
+    listenData({
+      path: "messages",
+      docId: "m1",
+      includeMetadata: true,
+      onNext,
+    });
+
+    emit({
+      ...createDoc("m1", { text: "Hello" }),
+      metadata: { fromCache: true, hasPendingWrites: true },
+    });
+
+    expect(onSnapshot).toHaveBeenCalledWith(
+      undefined,
+      { includeMetadataChanges: true },
+      expect.any(Function),
+      expect.any(Function)
+    );
+    expect(onNext).toHaveBeenCalledWith(
+      { id: "m1", text: "Hello" },
+      { fromCache: true, hasPendingWrites: true }
+    );
+  });
+
+  test("should reject onChanges for a single document", () => {
+    const onError = jest.fn();
+    listenData({
+      path: "messages",
+      docId: "m1",
+      onChanges: jest.fn(),
+      onError,
+    });
+
+    expect(onSnapshot).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(expect.any(ValidationError));
+  });
+
+  test("should require onNext or onChanges", () => {
+    const onError = jest.fn();
+    listenData({ path: "messages", onError });
+
+    expect(onSnapshot).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(expect.any(ValidationError));
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  describe,
+  test,
+  expect,
+  jest,
+  beforeEach,
+  afterEach,
+} from "@jest/globals";
+import {
+  listenIterable,
+  listenObservable,
+} from "../core/operations/listenStreams";
+import { unsubscribeAll } from "../core/listenerRegistry";
+import { getFirebaseInstance } from "../core/firebase";
+import { onSnapshot } from "firebase/firestore";
+
+// Definice typu pro mock funkce
+type MockFunction<T = any> = jest.MockedFunction<(...args: any[]) => T>;
+
+const mockCache = {
+  invalidateByPath: jest.fn(),
+  invalidateCollection: jest.fn(),
+};
+
+jest.mock("../core/firebase", () => ({
+  getFirebaseInstance: jest.fn(),
+  DEFAULT_INSTANCE: "[DEFAULT]",
+}));
+
+jest.mock("../cache/cacheManager", () => ({
+  CacheManager: {
+    getInstance: jest.fn(() => mockCache),
+    createKey: jest.fn(
+      (path, options) => `${path}:${JSON.stringify(options)}`
+    ),
+  },
+}));
+
+/**
+ * Creates a snapshot of the users/u1 document
+ */
+const createSnapshot = (name: string) => ({
+  id: "u1",
+  ref: { path: "users/u1" },
+  exists: () => true,
+  data: () => ({ name }),
+});
+
+describe("listenIterable and listenObservable", () => {
+  let emit: (snapshot: unknown) => void;
+  let fail: (error: Error) => void;
+  let stop: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getFirebaseInstance as MockFunction).mockReturnValue({
+      app: {},
+      firestore: {},
+    });
+    (onSnapshot as MockFunction).mockImplementation(
+      (_ref, _options, next, error) => {
+        emit = next;
+        fail = error;
+        stop = jest.fn();
+        return stop;
+      }
+    );
+  });
+
+  afterEach(() => {
+    unsubscribeAll();
+  });
+
+  test("should iterate the snapshots and stop the listener on break", async () => {
+    const iterator = listenIterable<{ id: string; name: string }>({
+      path: "users",
+      docId: "u1",
+    })[Symbol.asyncIterator]();
+
+    const first = iterator.next();
+    emit(createSnapshot("John"));
+    expect(await first).toEqual({
+      value: { id: "u1", name: "John" },
+      done: false,
+    });
+
+    emit(createSnapshot("Jane"));
+    emit(createSnapshot("Joe"));
+    expect(await iterator.next()).toEqual({
+      value: { id: "u1", name: "Joe" },
+      done: false,
+    });
+
+    await iterator.return?.();
+
+    expect(stop).toHaveBeenCalledTimes(1);
+    expect(await iterator.next()).toEqual({ value: undefined, done: true });
+  });
+
+  test("should end a for await loop with the listener error", async () => {
+    const values: unknown[] = [];
+    const iterate = async () => {
+      for await (const user of listenIterable({ path: "users", docId: "u1" })) {
+        values.push(user);
+        fail(new Error("Permission denied"));
+      }
+    };
+
+    const loop = iterate();
+    emit(createSnapshot("John"));
+
+    await expect(loop).rejects.toThrow("Permission denied");
+    expect(values).toEqual([{ id: "u1", name: "John" }]);
+  });
+
+  test("should end the iteration when all listeners are stopped", async () => {
+    const iterator = listenIterable({ path: "users" })[Symbol.asyncIterator]();
+
+    const pending = iterator.next();
+    unsubscribeAll();
+
+    expect(await pending).toEqual({ value: undefined, done: true });
+    expect(await iterator.next()).toEqual({ value: undefined, done: true });
+    expect(stop).toHaveBeenCalledTimes(1);
+  });
+
+  test("should deliver values to observers until unsubscribe", () => {
+    const next = jest.fn();
+    const observable = listenObservable({ path: "users", docId: "u1" });
+
+    expect(observable["@@observable"]()).toBe(observable);
+
+    const subscription = observable.subscribe({ next });
+    emit(createSnapshot("John"));
+    subscription.unsubscribe();
+
+    expect(next).toHaveBeenCalledWith({ id: "u1", name: "John" });
+    expect(subscription.closed).toBe(true);
+    expect(stop).toHaveBeenCalledTimes(1);
+  });
+
+  test("should close the subscription on listener errors", () => {
+    const error = jest.fn();
+    const subscription = listenObservable({
+      path: "users",
+      docId: "u1",
+    }).subscribe(jest.fn(), error);
+
+    fail(new Error("Permission denied"));
+
+    expect(error).toHaveBeenCalledWith(expect.any(Error));
+    expect(subscription.closed).toBe(true);
+  });
+
+  test("should complete observers when all listeners are stopped", () => {
+    const complete = jest.fn();
+    const error = jest.fn();
+    const subscription = listenObservable({ path: "users" }).subscribe({
+      error,
+      complete,
+    });
+
+    unsubscribeAll();
+
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(error).not.toHaveBeenCalled();
+    expect(subscription.closed).toBe(true);
+    expect(stop).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  describe,
+  test,
+  expect,
+  jest,
+  beforeEach,
+  afterEach,
+} from "@jest/globals";
+import { listenData } from "../core/operations/listenData";
+import {
+  listActiveListeners,
+  unsubscribeAll,
+} from "../core/listenerRegistry";
+import { getFirebaseInstance } from "../core/firebase";
+import { onSnapshot } from "firebase/firestore";
+
+// Definice typu pro mock funkce
+type MockFunction<T = any> = jest.MockedFunction<(...args: any[]) => T>;
+
+const mockCache = {
+  invalidateByPath: jest.fn(),
+  invalidateCollection: jest.fn(),
+};
+
+jest.mock("../core/firebase", () => ({
+  getFirebaseInstance: jest.fn(),
+  DEFAULT_INSTANCE: "[DEFAULT]",
+}));
+
+jest.mock("../cache/cacheManager", () => ({
+  CacheManager: {
+    getInstance: jest.fn(() => mockCache),
+    createKey: jest.fn(
+      (path, options) => `${path}:${JSON.stringify(options)}`
+    ),
+  },
+}));
+
+/**
+ * Creates a query snapshot with one document of the users collection
+ */
+const createSnapshot = (name: string) => {
+  const document = {
+    id: "u1",
+    ref: { path: "users/u1" },
+    exists: () => true,
+    data: () => ({ name }),
+  };
+  return {
+    empty: false,
+    docs: [document],
+    docChanges: () => [
+      { type: "modified", doc: document, oldIndex: 0, newIndex: 0 },
+    ],
+  };
+};
+
+describe("Listener registry", () => {
+  const emitters: Array<(snapshot: unknown) => void> = [];
+  const stops: jest.Mock[] = [];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    emitters.length = 0;
+    stops.length = 0;
+    (getFirebaseInstance as MockFunction).mockReturnValue({
+      app: {},
+      firestore: {},
+    });
+    (onSnapshot as MockFunction).mockImplementation(
+      (_ref, _options, next) => {
+        const stop = jest.fn();
+        emitters.push(next);
+        stops.push(stop);
+        return stop;
+      }
+    );
+  });
+
+  afterEach(() => {
+    unsubscribeAll();
+  });
+
+  test("should share one snapshot listener between equal listeners", () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const unsubscribeFirst = listenData({ path: "users", onNext: first });
+    const unsubscribeSecond = listenData({ path: "users", onNext: second });
+    listenData({ path: "users", limit: 5, onNext: jest.fn() });
+
+    emitters[0](createSnapshot("John"));
+
+    expect(onSnapshot).toHaveBeenCalledTimes(2);
+    expect(first).toHaveBeenCalledWith([{ id: "u1", name: "John" }]);
+    expect(second).toHaveBeenCalledWith([{ id: "u1", name: "John" }]);
+    expect(mockCache.invalidateByPath).toHaveBeenCalledTimes(1);
+
+    unsubscribeFirst();
+    expect(stops[0]).not.toHaveBeenCalled();
+    unsubscribeSecond();
+    expect(stops[0]).toHaveBeenCalledTimes(1);
+  });
+
+  test("should replay the last snapshot to late subscribers", async () => {
+    listenData({ path: "users", onNext: jest.fn() });
+    emitters[0](createSnapshot("John"));
+
+    const onNext = jest.fn();
+    const onChanges = jest.fn();
+    listenData({ path: "users", onNext, onChanges });
+    await Promise.resolve();
+
+    expect(onNext).toHaveBeenCalledWith([{ id: "u1", name: "John" }]);
+    expect(onChanges).toHaveBeenCalledWith([
+      {
+        type: "added",
+        doc: { id: "u1", name: "John" },
+        oldIndex: -1,
+        newIndex: 0,
+      },
+    ]);
+  });
+
+  test("should list and stop the active listeners", () => {
+    listenData({ path: "users", onNext: jest.fn() });
+    listenData({ path: "users", onNext: jest.fn() });
+    listenData({ path: "users", docId: "u1", onNext: jest.fn() });
+
+    expect(listActiveListeners()).toEqual([
+      expect.objectContaining({
+        path: "users",
+        instance: "[DEFAULT]",
+        subscribers: 2,
+        since: expect.any(Date),
+      }),
+      expect.objectContaining({ path: "users", docId: "u1", subscribers: 1 }),
+    ]);
+
+    expect(unsubscribeAll()).toBe(2);
+    expect(stops[0]).toHaveBeenCalledTimes(1);
+    expect(stops[1]).toHaveBeenCalledTimes(1);
+    expect(listActiveListeners()).toEqual([]);
+  });
+
+  test("should close a failed listener", () => {
+    const onError = jest.fn();
+    listenData({ path: "users", onNext: jest.fn(), onError });
+
+    const failListener = (onSnapshot as MockFunction).mock.calls[0][3];
+    failListener(new Error("Permission denied"));
+
+    expect(onError).toHaveBeenCalledWith(expect.any(Error));
+    expect(listActiveListeners()).toEqual([]);
+
+    listenData({ path: "users", onNext: jest.fn() });
+    expect(onSnapshot).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, test, expect, jest, afterEach } from "@jest/globals";
+import {
+  use,
+  runOperation,
+  runListener,
+  Middleware,
+} from "../core/middleware";
+import { ValidationError } from "../errors";
+import { Result } from "../types";
+
+describe("Middleware", () => {
+  const removers: Array<() => void> = [];
+  const register = (middleware: Middleware) => {
+    removers.push(use(middleware));
+  };
+
+  afterEach(() => {
+    removers.splice(0).forEach((remove) => remove());
+  });
+
+  const execute = jest.fn(
+    async (options: any): Promise<Result> => ({
+      data: { path: options.path },
+      error: null,
+      loading: false,
+    })
+  );
+
+  test("should run the operation directly without middleware", async () => {
+    const result = await runOperation("get", { path: "users" }, execute);
+
+    expect(result.data).toEqual({ path: "users" });
+  });
+
+  test("should run middleware in registration order with modified options", async () => {
+    const calls: string[] = [];
+    register(({ operation, options }, next) => {
+      calls.push(`first:${operation}`);
+      return next({ ...options, path: `tenants/t1/${options.path}` });
+    });
+    register(({ options }, next) => {
+      calls.push(`second:${options.path}`);
+      return next();
+    });
+
+    const result = await runOperation("get", { path: "users" }, execute);
+
+    expect(calls).toEqual(["first:get", "second:tenants/t1/users"]);
+    expect(result.data).toEqual({ path: "tenants/t1/users" });
+  });
+
+  test("should short-circuit with a Result", async () => {
+    const error = new ValidationError("Read-only mode");
+    register(() => ({ data: null, error, loading: false }));
+    execute.mockClear();
+
+    const result = await runOperation("create", { path: "users" }, execute);
+
+    expect(result.error).toBe(error);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  test("should post-process the result", async () => {
+    register(async (_context, next) => {
+      const output = (await next()) as Result;
+      return { ...output, data: { ...output.data, audited: true } };
+    });
+
+    const result = await runOperation("update", { path: "users" }, execute);
+
+    expect(result.data).toEqual({ path: "users", audited: true });
+  });
+
+  test("should convert middleware errors to a Result", async () => {
+    register(() => {
+      throw new Error("Middleware failed");
+    });
+
+    const result = await runOperation("removeDoc", { path: "users" }, execute);
+
+    expect(result.data).toBeNull();
+    expect(result.error?.message).toBe("Middleware failed");
+  });
+
+  test("should stop running removed middleware", async () => {
+    const middleware = jest.fn<Middleware>((_context, next) => next());
+    const remove = use(middleware);
+    remove();
+
+    await runOperation("get", { path: "users" }, execute);
+
+    expect(middleware).not.toHaveBeenCalled();
+  });
+
+  describe("listen", () => {
+    test("should return the unsubscribe function of the listener", () => {
+      const unsubscribe = jest.fn();
+      const startListener = jest.fn((_options: any) => unsubscribe);
+      register(({ options }, next) =>
+        next({ ...options, path: `tenants/t1/${options.path}` })
+      );
+
+      const result = runListener(
+        { path: "users", onNext: jest.fn() },
+        startListener
+      );
+      result();
+
+      expect(startListener).toHaveBeenCalledWith(
+        expect.objectContaining({ path: "tenants/t1/users" })
+      );
+      expect(unsubscribe).toHaveBeenCalled();
+    });
+
+    test("should unsubscribe once asynchronous middleware has set up the listener", async () => {
+      const unsubscribe = jest.fn();
+      register(async (_context, next) => next());
+
+      const result = runListener(
+        { path: "users", onNext: jest.fn() },
+        () => unsubscribe
+      );
+      result();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(unsubscribe).toHaveBeenCalled();
+    });
+
+    test("should pass the error of a short-circuit Result to onError", () => {
+      const error = new ValidationError("Blocked");
+      const onError = jest.fn();
+      const startListener = jest.fn(() => () => {});
+      register(() => ({ data: null, error, loading: false }));
+
+      runListener({ path: "users", onNext: jest.fn(), onError }, startListener);
+
+      expect(onError).toHaveBeenCalledWith(error);
+      expect(startListener).not.toHaveBeenCalled();
+    });
+  });
+});
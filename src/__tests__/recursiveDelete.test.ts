@@ -0,0 +1,152 @@
+import {
+  describe,
+  test,
+  expect,
+  jest,
+  beforeEach,
+  afterEach,
+} from "@jest/globals";
+import {
+  registerSubcollections,
+  getSubcollections,
+} from "../core/recursiveDelete";
+import { deleteData } from "../core/operations/deleteData";
+import { getFirebaseInstance } from "../core/firebase";
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  writeBatch,
+} from "firebase/firestore";
+import { ValidationError } from "../errors";
+
+// Definice typu pro mock funkce
+type MockFunction<T = any> = jest.MockedFunction<(...args: any[]) => T>;
+
+const mockCache = {
+  remove: jest.fn(),
+  invalidateByPath: jest.fn(),
+  invalidateCollection: jest.fn(),
+};
+
+jest.mock("../core/firebase", () => ({
+  getFirebaseInstance: jest.fn(),
+}));
+
+jest.mock("../cache/cacheManager", () => ({
+  CacheManager: {
+    getInstance: jest.fn(() => mockCache),
+    createKey: jest.fn(
+      (path, options) => `${path}:${JSON.stringify(options)}`
+    ),
+  },
+}));
+
+describe("Recursive Delete", () => {
+  const removers: Array<() => void> = [];
+  // Documents of each collection that are still stored
+  let stored: Record<string, string[]>;
+  let batch: { delete: jest.Mock; commit: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getFirebaseInstance as MockFunction).mockReturnValue({
+      app: {},
+      firestore: {},
+    });
+    (collection as MockFunction).mockImplementation((_firestore, path) => path);
+    (doc as MockFunction).mockImplementation((_firestore, path) => ({ path }));
+    (getDocs as MockFunction).mockImplementation(async (path: string) => ({
+      docs: (stored[path] ?? []).map((id) => ({
+        id,
+        ref: { path: `${path}/${id}` },
+      })),
+    }));
+
+    // Deleted documents disappear from the stored collections
+    batch = {
+      delete: jest.fn((ref: { path: string }) => {
+        const collectionPath = ref.path.split("/").slice(0, -1).join("/");
+        stored[collectionPath] = stored[collectionPath].filter(
+          (id) => `${collectionPath}/${id}` !== ref.path
+        );
+      }),
+      commit: jest.fn(() => Promise.resolve()),
+    };
+    (writeBatch as MockFunction).mockReturnValue(batch);
+  });
+
+  afterEach(() => {
+    removers.splice(0).forEach((remove) => remove());
+  });
+
+  test("should return the registered subcollections of a document", () => {
+    removers.push(registerSubcollections("users/{uid}", ["sessions"]));
+    removers.push(registerSubcollections("users/{uid}", ["posts", "sessions"]));
+
+    expect(getSubcollections("users/u1")).toEqual(["sessions", "posts"]);
+    expect(getSubcollections("users/u1/posts/p1")).toEqual([]);
+  });
+
+  test("should delete registered subcollections depth-first", async () => {
+    removers.push(registerSubcollections("users/{uid}", ["posts"]));
+    removers.push(
+      registerSubcollections("users/{uid}/posts/{postId}", ["comments"])
+    );
+    stored = {
+      "users/u1/posts": ["p1", "p2"],
+      "users/u1/posts/p1/comments": ["c1"],
+    };
+    const onProgress = jest.fn();
+
+    const result = await deleteData({
+      path: "users",
+      docId: "u1",
+      recursive: true,
+      onProgress,
+    });
+
+    expect(result.error).toBeNull();
+    expect(batch.delete.mock.calls.map(([ref]: any) => ref.path)).toEqual([
+      "users/u1/posts/p1/comments/c1",
+      "users/u1/posts/p1",
+      "users/u1/posts/p2",
+    ]);
+    expect(deleteDoc).toHaveBeenCalledWith({ path: "users/u1" });
+    expect(onProgress).toHaveBeenLastCalledWith({ deleted: 4, path: "users" });
+    expect(mockCache.invalidateByPath).toHaveBeenCalledWith(
+      "users/u1",
+      undefined
+    );
+  });
+
+  test("should use the passed subcollections", async () => {
+    removers.push(registerSubcollections("users/{uid}", ["posts"]));
+    stored = { "users/u1/sessions": ["s1"], "users/u1/posts": ["p1"] };
+
+    await deleteData({
+      path: "users",
+      docId: "u1",
+      recursive: true,
+      subcollections: ["sessions"],
+    });
+
+    expect(stored).toEqual({
+      "users/u1/sessions": [],
+      "users/u1/posts": ["p1"],
+    });
+  });
+
+  test("should reject recursive soft deletes", async () => {
+    const result = await deleteData({
+      path: "users",
+      docId: "u1",
+      recursive: true,
+      soft: true,
+    });
+
+    expect(result.error).toBeInstanceOf(ValidationError);
+    expect(deleteDoc).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,138 @@
+import {
+  describe,
+  test,
+  expect,
+  jest,
+  beforeEach,
+  afterEach,
+} from "@jest/globals";
+import {
+  configureRetry,
+  getRetryDelay,
+  getRetryPolicy,
+  resetRetryPolicy,
+  withRetry,
+} from "../core/retry";
+import { withTimeout } from "../core/timeout";
+import { NetworkError, PermissionError, TimeoutError } from "../errors";
+
+/**
+ * Creates an error shaped like the FirebaseError thrown by the SDK
+ */
+const firebaseError = (code: string) =>
+  Object.assign(new Error(`Firebase error: ${code}`), {
+    name: "FirebaseError",
+    code,
+  });
+
+describe("Retry", () => {
+  beforeEach(() => {
+    // No delays between attempts in tests
+    configureRetry({ baseDelayMs: 0 });
+  });
+
+  afterEach(() => {
+    resetRetryPolicy();
+  });
+
+  test("should retry transient errors until the call succeeds", async () => {
+    const fn = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(firebaseError("unavailable"))
+      .mockRejectedValueOnce(firebaseError("deadline-exceeded"))
+      .mockResolvedValue("ok");
+
+    await expect(withRetry("getData", fn)).resolves.toBe("ok");
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  test("should rethrow the last error after maxAttempts", async () => {
+    const error = firebaseError("unavailable");
+    const fn = jest.fn<() => Promise<string>>().mockRejectedValue(error);
+
+    await expect(withRetry("getData", fn)).rejects.toBe(error);
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  test("should not retry errors that are not retryable", async () => {
+    const fn = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValue(firebaseError("permission-denied"));
+
+    await expect(withRetry("getData", fn)).rejects.toBeDefined();
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  test("should not retry the time limit of withTimeout", async () => {
+    const fn = jest
+      .fn<() => Promise<string>>()
+      .mockImplementation(() => new Promise(() => {}));
+
+    const promise = withRetry("updateData", () =>
+      withTimeout("updateData", fn, 10)
+    );
+
+    await expect(promise).rejects.toBeInstanceOf(TimeoutError);
+    await expect(promise).rejects.toMatchObject({ timeoutMs: 10 });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  test("should apply per-call options", async () => {
+    const fn = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValue(firebaseError("permission-denied"));
+
+    await expect(
+      withRetry("getData", fn, {
+        retry: { maxAttempts: 2, retryOn: [PermissionError] },
+      })
+    ).rejects.toBeDefined();
+    expect(fn).toHaveBeenCalledTimes(2);
+
+    fn.mockClear();
+    await expect(
+      withRetry("getData", fn, { retry: false })
+    ).rejects.toBeDefined();
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  test("should retry non-idempotent calls only when enabled", async () => {
+    const fn = jest
+      .fn<() => Promise<void>>()
+      .mockRejectedValue(firebaseError("unavailable"));
+
+    await expect(
+      withRetry("updateData", fn, { idempotent: false })
+    ).rejects.toBeDefined();
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    fn.mockClear();
+    await expect(
+      withRetry("updateData", fn, {
+        idempotent: false,
+        retry: { retryNonIdempotent: true },
+      })
+    ).rejects.toBeDefined();
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  test("should configure the global policy", () => {
+    configureRetry({ maxAttempts: 5 });
+
+    expect(getRetryPolicy().maxAttempts).toBe(5);
+    expect(getRetryPolicy().retryOn).toContain(NetworkError);
+  });
+
+  test("should back off exponentially up to maxDelayMs", () => {
+    const policy = {
+      ...getRetryPolicy(),
+      baseDelayMs: 100,
+      maxDelayMs: 300,
+      jitter: false,
+    };
+
+    expect(getRetryDelay(1, policy)).toBe(100);
+    expect(getRetryDelay(2, policy)).toBe(200);
+    expect(getRetryDelay(3, policy)).toBe(300);
+  });
+});
@@ -0,0 +1,206 @@
+import {
+  describe,
+  test,
+  expect,
+  jest,
+  beforeEach,
+  afterEach,
+} from "@jest/globals";
+import { configureSoftDelete, resetSoftDelete } from "../core/softDelete";
+import { deleteData } from "../core/operations/deleteData";
+import { getData } from "../core/operations/getData";
+import { restoreData } from "../core/operations/restoreData";
+import { purgeDeleted } from "../core/operations/purgeDeleted";
+import { backfillDeleted } from "../core/operations/backfillDeleted";
+import { updateData } from "../core/operations/updateData";
+import { batchData } from "../core/operations/batch";
+import { transactionData } from "../core/operations/transaction";
+import { getFirebaseInstance } from "../core/firebase";
+import {
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  runTransaction,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { NotFoundError } from "../errors";
+
+// Definice typu pro mock funkce
+type MockFunction<T = any> = jest.MockedFunction<(...args: any[]) => T>;
+
+const mockCache = {
+  get: jest.fn(() => null),
+  set: jest.fn(),
+  remove: jest.fn(),
+  clear: jest.fn(),
+  invalidateCollection: jest.fn(),
+};
+
+jest.mock("../core/firebase", () => ({
+  getFirebaseInstance: jest.fn(),
+}));
+
+jest.mock("../cache/cacheManager", () => ({
+  CacheManager: {
+    getInstance: jest.fn(() => mockCache),
+    createKey: jest.fn(
+      (path, options) => `${path}:${JSON.stringify(options)}`
+    ),
+  },
+}));
+
+describe("Soft Delete", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getFirebaseInstance as MockFunction).mockReturnValue({
+      app: {},
+      firestore: {},
+    });
+    (doc as MockFunction).mockImplementation((_parent, path: string) => ({
+      id: path.split("/").pop(),
+    }));
+    configureSoftDelete(true, "users");
+  });
+
+  afterEach(() => {
+    resetSoftDelete();
+  });
+
+  test("should mark documents as deleted instead of deleting them", async () => {
+    await deleteData({ path: "users", docId: "u1" });
+
+    expect(deleteDoc).not.toHaveBeenCalled();
+    expect(updateDoc).toHaveBeenCalledWith(
+      { id: "u1" },
+      { deletedAt: expect.any(Date) }
+    );
+    expect(mockCache.invalidateCollection).toHaveBeenCalledWith(
+      "users",
+      undefined
+    );
+  });
+
+  test("should hard delete with soft: false or in other collections", async () => {
+    await deleteData({ path: "users", docId: "u1", soft: false });
+    await deleteData({ path: "posts", docId: "p1" });
+
+    expect(deleteDoc).toHaveBeenCalledTimes(2);
+    expect(updateDoc).not.toHaveBeenCalled();
+  });
+
+  test("should exclude soft-deleted documents from queries", async () => {
+    (getDocs as MockFunction).mockResolvedValue({ docs: [], size: 0 });
+
+    await getData({ path: "users" });
+    expect(where).toHaveBeenCalledWith("deletedAt", "==", null);
+
+    (where as MockFunction).mockClear();
+    await getData({ path: "users", includeDeleted: true });
+    expect(where).not.toHaveBeenCalled();
+  });
+
+  test("should report a soft-deleted document as not found", async () => {
+    const snapshot = {
+      id: "u1",
+      exists: () => true,
+      data: () => ({ name: "John", deletedAt: new Date() }),
+    };
+    (getDoc as MockFunction).mockResolvedValue(snapshot);
+
+    const result = await getData({ path: "users", docId: "u1" });
+    const included = await getData({
+      path: "users",
+      docId: "u1",
+      includeDeleted: true,
+    });
+
+    expect(result.error).toBeInstanceOf(NotFoundError);
+    expect(included.data).toEqual(expect.objectContaining({ id: "u1" }));
+  });
+
+  test("should keep overwritten documents visible to reads", async () => {
+    const batch = {
+      set: jest.fn(),
+      commit: jest.fn(() => Promise.resolve()),
+    };
+    const transaction = { set: jest.fn() };
+    (writeBatch as MockFunction).mockReturnValue(batch);
+    (runTransaction as MockFunction).mockImplementation((_firestore, fn) =>
+      fn(transaction)
+    );
+    const data = { name: "John" };
+    const expected = { name: "John", deletedAt: null };
+
+    await updateData({ path: "users", docId: "u1", data, merge: false });
+    await batchData()
+      .update({ path: "users", docId: "u1", data, merge: false })
+      .commit();
+    await transactionData(async (tx) => {
+      tx.update({ path: "users", docId: "u1", data, merge: false });
+    });
+
+    expect(setDoc).toHaveBeenCalledWith({ id: "u1" }, expected);
+    expect(batch.set).toHaveBeenCalledWith({ id: "u1" }, expected);
+    expect(transaction.set).toHaveBeenCalledWith({ id: "u1" }, expected);
+  });
+
+  test("should restore documents", async () => {
+    const result = await restoreData({ path: "users", docId: "u1" });
+
+    expect(result.error).toBeNull();
+    expect(updateDoc).toHaveBeenCalledWith({ id: "u1" }, { deletedAt: null });
+  });
+
+  test("should purge documents deleted before the cutoff", async () => {
+    const batch = {
+      delete: jest.fn(),
+      commit: jest.fn(() => Promise.resolve()),
+    };
+    (writeBatch as MockFunction).mockReturnValue(batch);
+    (getDocs as MockFunction).mockResolvedValue({
+      docs: [{ ref: { id: "u1" } }, { ref: { id: "u2" } }],
+    });
+    const cutoff = new Date("2024-01-01");
+
+    const result = await purgeDeleted({ path: "users", olderThan: cutoff });
+
+    expect(where).toHaveBeenCalledWith("deletedAt", "<", cutoff);
+    expect(batch.delete).toHaveBeenCalledTimes(2);
+    expect(result.data).toEqual({ purged: 2 });
+  });
+
+  test("should add the deleted field to documents without it", async () => {
+    const batch = {
+      update: jest.fn(),
+      commit: jest.fn(() => Promise.resolve()),
+    };
+    (writeBatch as MockFunction).mockReturnValue(batch);
+    (getDocs as MockFunction).mockResolvedValue({
+      docs: [
+        { id: "u1", ref: { id: "u1" }, data: () => ({ name: "Old" }) },
+        {
+          id: "u2",
+          ref: { id: "u2" },
+          data: () => ({ name: "New", deletedAt: null }),
+        },
+      ],
+    });
+
+    const result = await backfillDeleted({ path: "users" });
+
+    expect(batch.update).toHaveBeenCalledTimes(1);
+    expect(batch.update).toHaveBeenCalledWith(
+      { id: "u1" },
+      { deletedAt: null }
+    );
+    expect(mockCache.invalidateCollection).toHaveBeenCalledWith(
+      "users",
+      undefined
+    );
+    expect(result.data).toEqual({ scanned: 2, updated: 1 });
+  });
+});
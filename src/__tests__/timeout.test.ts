@@ -0,0 +1,57 @@
+import { describe, test, expect, jest, afterEach } from "@jest/globals";
+import {
+  configureTimeout,
+  getTimeoutConfig,
+  withTimeout,
+} from "../core/timeout";
+import { TimeoutError } from "../errors";
+
+describe("Timeout", () => {
+  afterEach(() => {
+    configureTimeout({ timeoutMs: 0 });
+    jest.useRealTimers();
+  });
+
+  test("should return the result of a call that settles in time", async () => {
+    await expect(
+      withTimeout("getData", () => Promise.resolve("ok"), 1000)
+    ).resolves.toBe("ok");
+  });
+
+  test("should reject with a TimeoutError when the call takes too long", async () => {
+    jest.useFakeTimers();
+    const promise = withTimeout("getData", () => new Promise(() => {}), 500);
+
+    jest.advanceTimersByTime(500);
+
+    await expect(promise).rejects.toBeInstanceOf(TimeoutError);
+    await expect(promise).rejects.toThrow("getData timed out after 500 ms");
+  });
+
+  test("should clear the timer once the call settles", async () => {
+    jest.useFakeTimers();
+
+    await withTimeout("getData", () => Promise.resolve("ok"), 500);
+
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  test("should use the global time limit", async () => {
+    jest.useFakeTimers();
+    configureTimeout({ timeoutMs: 200 });
+    const promise = withTimeout("createData", () => new Promise(() => {}));
+
+    jest.advanceTimersByTime(200);
+
+    await expect(promise).rejects.toBeInstanceOf(TimeoutError);
+    expect(getTimeoutConfig().timeoutMs).toBe(200);
+  });
+
+  test("should not limit calls without a time limit", async () => {
+    jest.useFakeTimers();
+    const promise = withTimeout("getData", () => Promise.resolve("ok"));
+
+    expect(jest.getTimerCount()).toBe(0);
+    await expect(promise).resolves.toBe("ok");
+  });
+});
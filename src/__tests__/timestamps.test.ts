@@ -0,0 +1,65 @@
+import { describe, test, expect, afterEach } from "@jest/globals";
+import {
+  configureTimestamps,
+  getTimestampsConfig,
+  resetTimestamps,
+  applyTimestamps,
+} from "../core/timestamps";
+import { FieldTransform } from "../utils/fieldTransforms";
+
+describe("Timestamps", () => {
+  afterEach(() => {
+    resetTimestamps();
+  });
+
+  test("should leave data untouched unless enabled", () => {
+    const data = { name: "John" };
+
+    expect(getTimestampsConfig("users")).toBeNull();
+    expect(applyTimestamps("create", "users", data)).toBe(data);
+  });
+
+  test("should stamp both fields on create and only updatedAt on update", () => {
+    configureTimestamps(true);
+
+    const created = applyTimestamps("create", "users", { name: "John" });
+    const updated = applyTimestamps("update", "users", { name: "Jane" });
+
+    expect(created).toEqual({
+      name: "John",
+      createdAt: expect.any(Date),
+      updatedAt: expect.any(Date),
+    });
+    expect((created as any).createdAt).toBe((created as any).updatedAt);
+    expect(updated).toEqual({ name: "Jane", updatedAt: expect.any(Date) });
+  });
+
+  test("should keep fields already present in the data", () => {
+    configureTimestamps(true);
+    const createdAt = new Date("2020-01-01");
+
+    const data = applyTimestamps("create", "users", { createdAt });
+
+    expect(data).toEqual({ createdAt, updatedAt: expect.any(Date) });
+  });
+
+  test("should use collection configuration with custom fields", () => {
+    configureTimestamps(true);
+    configureTimestamps(
+      { createdAt: "created", updatedAt: false, serverTimestamp: true },
+      "orgs/{orgId}/members"
+    );
+    configureTimestamps(false, "logs");
+
+    const member = applyTimestamps("create", "orgs/acme/members", {});
+
+    expect(member).toEqual({ created: expect.any(FieldTransform) });
+    expect((member as any).created.type).toBe("serverTimestamp");
+    expect(applyTimestamps("create", "logs", {})).toEqual({});
+    expect(getTimestampsConfig("users")).toEqual({
+      createdAt: "createdAt",
+      updatedAt: "updatedAt",
+      serverTimestamp: false,
+    });
+  });
+});
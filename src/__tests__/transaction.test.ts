@@ -0,0 +1,158 @@
+import { describe, test, expect, jest, beforeEach } from "@jest/globals";
+import { transactionData } from "../core/operations/transaction";
+import { registerValidator } from "../core/validation";
+import { getFirebaseInstance } from "../core/firebase";
+import { doc, collection, runTransaction } from "firebase/firestore";
+import { NotFoundError, ValidationError } from "../errors";
+
+// Definice typu pro mock funkce
+type MockFunction<T = any> = jest.MockedFunction<(...args: any[]) => T>;
+
+const mockCache = {
+  remove: jest.fn(),
+  invalidateCollection: jest.fn(),
+};
+
+jest.mock("../core/firebase", () => ({
+  getFirebaseInstance: jest.fn(),
+}));
+
+jest.mock("../cache/cacheManager", () => ({
+  CacheManager: {
+    getInstance: jest.fn(() => mockCache),
+    createKey: jest.fn(
+      (path, options) => `${path}:${JSON.stringify(options)}`
+    ),
+  },
+}));
+
+jest.mock("firebase/firestore", () => ({
+  doc: jest.fn(),
+  collection: jest.fn(),
+  runTransaction: jest.fn(),
+}));
+
+describe("transactionData Function", () => {
+  const mockFirestore = {};
+  let mockTransaction: {
+    get: jest.Mock;
+    set: jest.Mock;
+    update: jest.Mock;
+    delete: jest.Mock;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    (getFirebaseInstance as MockFunction).mockReturnValue({
+      app: {},
+      firestore: mockFirestore,
+    });
+    (doc as MockFunction).mockImplementation((_parent, path?: string) => ({
+      id: path ? path.split("/").pop() : "auto-id",
+    }));
+    (collection as MockFunction).mockReturnValue({ id: "collection" });
+
+    mockTransaction = {
+      get: jest.fn(() =>
+        Promise.resolve({
+          id: "product1",
+          exists: () => true,
+          data: () => ({ stock: 3 }),
+        })
+      ),
+      set: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    };
+    (runTransaction as MockFunction).mockImplementation(
+      (_firestore, updateFunction: (tx: any) => Promise<any>) =>
+        updateFunction(mockTransaction)
+    );
+  });
+
+  test("should read formatted documents and write within the transaction", async () => {
+    const result = await transactionData(async (tx) => {
+      const product = await tx.get<{ id: string; stock: number }>({
+        path: "products",
+        docId: "product1",
+      });
+      tx.update({
+        path: "products",
+        docId: "product1",
+        data: { stock: product!.stock - 1 },
+      });
+      tx.remove({ path: "carts", docId: "cart1" });
+      return tx.create({ path: "orders", data: { productId: "product1" } });
+    });
+
+    expect(mockTransaction.update).toHaveBeenCalledWith(
+      { id: "product1" },
+      { stock: 2 }
+    );
+    expect(mockTransaction.delete).toHaveBeenCalledWith({ id: "cart1" });
+    expect(mockTransaction.set).toHaveBeenCalledWith(
+      { id: "auto-id" },
+      { productId: "product1" }
+    );
+    expect(result).toEqual({ data: "auto-id", error: null, loading: false });
+  });
+
+  test("should invalidate cache only after the transaction commits", async () => {
+    (runTransaction as MockFunction).mockImplementation(
+      async (_firestore, updateFunction: (tx: any) => Promise<any>) => {
+        const value = await updateFunction(mockTransaction);
+        expect(mockCache.invalidateCollection).not.toHaveBeenCalled();
+        return value;
+      }
+    );
+
+    await transactionData(async (tx) => {
+      tx.remove({ path: "carts", docId: "cart1" });
+    });
+
+    expect(mockCache.remove).toHaveBeenCalledWith('carts:{"docId":"cart1"}');
+    expect(mockCache.invalidateCollection).toHaveBeenCalledWith(
+      "carts",
+      undefined
+    );
+  });
+
+  test("should map callback errors through handleError", async () => {
+    const result = await transactionData(async () => {
+      throw new NotFoundError("Product not found");
+    });
+
+    expect(result.data).toBeNull();
+    expect(result.error).toBeInstanceOf(NotFoundError);
+    expect(mockCache.invalidateCollection).not.toHaveBeenCalled();
+  });
+
+  test("should reject writes with missing parameters", async () => {
+    const result = await transactionData(async (tx) => {
+      tx.update({ path: "products", docId: "", data: { stock: 1 } });
+    });
+
+    expect(result.error?.message).toContain("DocId parameter is required");
+  });
+
+  test("should reject writes refused by synchronous validators", async () => {
+    const remove = registerValidator("products/{productId}", (product) =>
+      product.stock >= 0 ? [] : [{ path: ["stock"], message: "Negative" }]
+    );
+
+    const result = await transactionData(async (tx) => {
+      tx.create({ path: "products", data: { stock: 1 } });
+      tx.update({ path: "products", docId: "product1", data: { stock: -1 } });
+    });
+    remove();
+
+    expect(result.error).toBeInstanceOf(ValidationError);
+    expect(result.error?.message).toContain(
+      "products/product1: stock: Negative"
+    );
+    expect(mockTransaction.set).toHaveBeenCalledTimes(1);
+    expect(mockTransaction.update).not.toHaveBeenCalled();
+    expect(mockCache.invalidateCollection).not.toHaveBeenCalled();
+  });
+});
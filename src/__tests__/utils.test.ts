@@ -1,4 +1,11 @@
-import { describe, test, expect, jest } from "@jest/globals";
+import {
+  describe,
+  test,
+  expect,
+  jest,
+  afterEach,
+  afterAll,
+} from "@jest/globals";
 import {
   formatDocument,
   formatCollection,
@@ -8,7 +15,16 @@ import {
   DocumentSnapshot,
   QuerySnapshot,
   DocumentData,
+  Timestamp,
+  GeoPoint,
+  DocumentReference,
 } from "firebase/firestore";
+import {
+  configureConversion,
+  convertData,
+  defaultConversion,
+} from "../utils/conversion";
+import { CacheManager } from "../cache/cacheManager";
 
 // Pomocné typy pro testy
 type MockDocumentSnapshot = Partial<DocumentSnapshot<DocumentData>> & {
@@ -104,4 +120,70 @@ describe("Formatter Utilities", () => {
       expect(result).toEqual([]);
     });
   });
+
+  describe("conversion", () => {
+    const timestamp = new Timestamp(1700000000, 0);
+    const data = {
+      createdAt: timestamp,
+      location: new GeoPoint(50.08, 14.42),
+      author: new (DocumentReference as any)("users/user1"),
+      history: [{ at: timestamp }],
+      meta: { nested: { at: timestamp } },
+    };
+
+    afterEach(() => {
+      configureConversion(defaultConversion);
+    });
+
+    afterAll(() => {
+      // Stop the cleanup timer of the cache cleared by configureConversion
+      CacheManager.getInstance().destroy();
+    });
+
+    test("should keep values unchanged by default", () => {
+      expect(convertData(data)).toBe(data);
+    });
+
+    test("should convert values recursively", () => {
+      const date = new Date(1700000000 * 1000);
+
+      expect(
+        convertData(data, {
+          timestamps: "date",
+          geoPoints: "object",
+          references: "path",
+        })
+      ).toEqual({
+        createdAt: date,
+        location: { latitude: 50.08, longitude: 14.42 },
+        author: "users/user1",
+        history: [{ at: date }],
+        meta: { nested: { at: date } },
+      });
+    });
+
+    test("should support ISO strings and epoch millis", () => {
+      expect(convertData({ at: timestamp }, { timestamps: "iso" })).toEqual({
+        at: "2023-11-14T22:13:20.000Z",
+      });
+      expect(convertData({ at: timestamp }, { timestamps: "millis" })).toEqual({
+        at: 1700000000000,
+      });
+    });
+
+    test("should apply the global configuration in formatDocument", () => {
+      configureConversion({ timestamps: "millis" });
+
+      const mockSnapshot = {
+        exists: jest.fn().mockReturnValue(true),
+        data: jest.fn().mockReturnValue({ createdAt: timestamp }),
+        id: "doc-id",
+      } as unknown as DocumentSnapshot<DocumentData>;
+
+      expect(formatDocument(mockSnapshot)).toEqual({
+        id: "doc-id",
+        createdAt: 1700000000000,
+      });
+    });
+  });
 });
@@ -0,0 +1,173 @@
+import { describe, test, expect, jest, afterEach } from "@jest/globals";
+import {
+  registerValidator,
+  validateWrite,
+  StandardSchemaV1,
+} from "../core/validation";
+import { matchPathPattern } from "../utils/pathPattern";
+import { formatDocument } from "../utils/formatters";
+import { increment } from "../utils/fieldTransforms";
+import { ValidationError } from "../errors";
+import { DocumentData, DocumentSnapshot } from "firebase/firestore";
+
+/**
+ * Standard Schema object requiring a string name and a numeric age
+ */
+const userSchema: StandardSchemaV1 = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value: any) => {
+      const issues = [];
+      if (typeof value.name !== "string") {
+        issues.push({ message: "Expected string", path: [{ key: "name" }] });
+      }
+      if (typeof value.age !== "number") {
+        issues.push({ message: "Expected number", path: ["age"] });
+      }
+      return issues.length > 0 ? { issues } : { value };
+    },
+  },
+};
+
+describe("Schema Validation", () => {
+  const removers: Array<() => void> = [];
+
+  afterEach(() => {
+    removers.splice(0).forEach((remove) => remove());
+  });
+
+  describe("matchPathPattern", () => {
+    test("should match documents and return placeholder values", () => {
+      expect(
+        matchPathPattern(
+          "orgs/{orgId}/members/{uid}",
+          "orgs/acme/members",
+          "john"
+        )
+      ).toEqual({ orgId: "acme", uid: "john" });
+      expect(matchPathPattern("users/{uid}", "users")).toEqual({});
+      expect(matchPathPattern("users/{uid}", "posts", "p1")).toBeNull();
+      expect(matchPathPattern("users/{uid}", "orgs/acme/users")).toBeNull();
+    });
+
+    test("should match collection patterns and literal document IDs", () => {
+      expect(
+        matchPathPattern("orgs/{orgId}/members", "orgs/acme/members")
+      ).toEqual({ orgId: "acme" });
+      expect(matchPathPattern("config/global", "config", "global")).toEqual({});
+      expect(matchPathPattern("config/global", "config", "other")).toBeNull();
+    });
+  });
+
+  describe("validateWrite", () => {
+    test("should return field-level issues of a Standard Schema", async () => {
+      removers.push(registerValidator("users/{uid}", userSchema));
+
+      const error = await validateWrite(
+        "create",
+        "users",
+        "u1",
+        { name: 42, age: 30 },
+        false
+      );
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error?.issues).toEqual([
+        { message: "Expected string", path: ["name"] },
+      ]);
+      expect(error?.message).toBe(
+        "Validation failed for users/u1: name: Expected string"
+      );
+    });
+
+    test("should run plain validation functions with the path parameters", async () => {
+      const validator = jest.fn(() => ["Invalid member"]);
+      removers.push(registerValidator("orgs/{orgId}/members/{uid}", validator));
+
+      const error = await validateWrite(
+        "create",
+        "orgs/acme/members",
+        undefined,
+        { role: "owner" },
+        false
+      );
+
+      expect(validator).toHaveBeenCalledWith(
+        { role: "owner" },
+        expect.objectContaining({
+          operation: "create",
+          params: { orgId: "acme" },
+        })
+      );
+      expect(error?.issues).toEqual([{ message: "Invalid member", path: [] }]);
+    });
+
+    test("should only report changed fields of partial updates", async () => {
+      removers.push(registerValidator("users/{uid}", userSchema));
+
+      await expect(
+        validateWrite("update", "users", "u1", { age: 31 }, true)
+      ).resolves.toBeNull();
+      await expect(
+        validateWrite("update", "users", "u1", { age: 31 }, false)
+      ).resolves.toBeInstanceOf(ValidationError);
+    });
+
+    test("should ignore fields holding a field transform", async () => {
+      removers.push(registerValidator("users/{uid}", userSchema));
+
+      await expect(
+        validateWrite(
+          "create",
+          "users",
+          "u1",
+          { name: "John", age: increment(1) },
+          false
+        )
+      ).resolves.toBeNull();
+    });
+
+    test("should skip validators of other collections", async () => {
+      removers.push(registerValidator("users/{uid}", userSchema));
+
+      await expect(
+        validateWrite("create", "posts", "p1", { title: "Hello" }, false)
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe("validation on read", () => {
+    const snapshot = (data: Record<string, any>) =>
+      ({
+        exists: jest.fn().mockReturnValue(true),
+        data: jest.fn().mockReturnValue(data),
+        id: "u1",
+        ref: { path: "users/u1" },
+      } as unknown as DocumentSnapshot<DocumentData>);
+
+    test("should throw a ValidationError for invalid documents", () => {
+      removers.push(
+        registerValidator("users/{uid}", userSchema, { validateOnRead: true })
+      );
+
+      expect(() => formatDocument(snapshot({ name: "John" }))).toThrow(
+        ValidationError
+      );
+      expect(formatDocument(snapshot({ name: "John", age: 30 }))).toEqual({
+        id: "u1",
+        name: "John",
+        age: 30,
+      });
+    });
+
+    test("should not validate on read unless enabled", () => {
+      removers.push(registerValidator("users/{uid}", userSchema));
+
+      expect(formatDocument(snapshot({ name: "John" }))).toEqual({
+        id: "u1",
+        name: "John",
+      });
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, test, expect, jest, beforeEach } from "@jest/globals";
+import { updateWhere } from "../core/operations/updateWhere";
+import { deleteWhere } from "../core/operations/deleteWhere";
+import { getFirebaseInstance } from "../core/firebase";
+import {
+  getDocs,
+  limit,
+  startAfter,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { MAX_BATCH_SIZE } from "../core/batchWriter";
+import { NetworkError } from "../errors";
+
+// Definice typu pro mock funkce
+type MockFunction<T = any> = jest.MockedFunction<(...args: any[]) => T>;
+
+const mockCache = {
+  remove: jest.fn(),
+  invalidateCollection: jest.fn(),
+};
+
+jest.mock("../core/firebase", () => ({
+  getFirebaseInstance: jest.fn(),
+}));
+
+jest.mock("../cache/cacheManager", () => ({
+  CacheManager: {
+    getInstance: jest.fn(() => mockCache),
+    createKey: jest.fn(
+      (path, options) => `${path}:${JSON.stringify(options)}`
+    ),
+  },
+}));
+
+/**
+ * Creates query document snapshots of the users collection
+ */
+const createDocs = (count: number, offset = 0, data = { active: true }) =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `u${offset + index}`,
+    ref: { id: `u${offset + index}` },
+    data: () => data,
+  }));
+
+describe("updateWhere and deleteWhere", () => {
+  let batch: { update: jest.Mock; delete: jest.Mock; commit: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getFirebaseInstance as MockFunction).mockReturnValue({
+      app: {},
+      firestore: {},
+    });
+    batch = {
+      update: jest.fn(),
+      delete: jest.fn(),
+      commit: jest.fn(() => Promise.resolve()),
+    };
+    (writeBatch as MockFunction).mockReturnValue(batch);
+  });
+
+  test("should update all matching documents page by page", async () => {
+    const firstPage = createDocs(MAX_BATCH_SIZE);
+    (getDocs as MockFunction)
+      .mockResolvedValueOnce({ docs: firstPage })
+      .mockResolvedValueOnce({ docs: createDocs(2, MAX_BATCH_SIZE) });
+
+    const result = await updateWhere({
+      path: "users",
+      where: [["lastLogin", "<", 2023]],
+      data: { active: false },
+    });
+
+    expect(where).toHaveBeenCalledWith("lastLogin", "<", 2023);
+    expect(limit).toHaveBeenCalledWith(MAX_BATCH_SIZE);
+    expect(startAfter).toHaveBeenCalledWith(firstPage[MAX_BATCH_SIZE - 1]);
+    expect(batch.update).toHaveBeenCalledTimes(MAX_BATCH_SIZE + 2);
+    expect(batch.update).toHaveBeenCalledWith({ id: "u0" }, { active: false });
+    expect(result).toEqual({
+      data: {
+        matched: MAX_BATCH_SIZE + 2,
+        changed: MAX_BATCH_SIZE + 2,
+        failed: 0,
+      },
+      error: null,
+      loading: false,
+    });
+  });
+
+  test("should skip documents the patch would not change", async () => {
+    (getDocs as MockFunction).mockResolvedValueOnce({
+      docs: [
+        ...createDocs(1, 0, { active: false }),
+        ...createDocs(1, 1, { active: true }),
+      ],
+    });
+
+    const result = await updateWhere({
+      path: "users",
+      data: { active: false },
+    });
+
+    expect(batch.update).toHaveBeenCalledTimes(1);
+    expect(result.data).toEqual({ matched: 2, changed: 1, failed: 0 });
+  });
+
+  test("should return the matching IDs without writing in dry run mode", async () => {
+    (getDocs as MockFunction).mockResolvedValueOnce({ docs: createDocs(2) });
+
+    const result = await deleteWhere({ path: "users", dryRun: true });
+
+    expect(writeBatch).not.toHaveBeenCalled();
+    expect(result.data).toEqual({
+      matched: 2,
+      changed: 0,
+      failed: 0,
+      ids: ["u0", "u1"],
+    });
+  });
+
+  test("should count documents of failed batches and continue", async () => {
+    (getDocs as MockFunction)
+      .mockResolvedValueOnce({ docs: createDocs(MAX_BATCH_SIZE) })
+      .mockResolvedValueOnce({ docs: createDocs(3, MAX_BATCH_SIZE) });
+    batch.commit.mockImplementationOnce(() =>
+      Promise.reject(new NetworkError("Network unavailable"))
+    );
+
+    const result = await deleteWhere({ path: "users" });
+
+    expect(batch.delete).toHaveBeenCalledTimes(MAX_BATCH_SIZE + 3);
+    expect(result.data).toEqual({
+      matched: MAX_BATCH_SIZE + 3,
+      changed: 3,
+      failed: MAX_BATCH_SIZE,
+    });
+    expect(result.error).toBeInstanceOf(NetworkError);
+    expect(mockCache.invalidateCollection).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,4 +1,5 @@
 import { LogLevel, createLogger } from "../logging";
+import { DEFAULT_INSTANCE } from "../core/firebase";
 
 const logger = createLogger("cacheManager");
 
@@ -32,6 +33,10 @@ interface CacheItem<T> {
 }
 
 export class CacheManager {
+  /** Path prefix of cache keys created for collection group queries */
+  public static readonly GROUP_PREFIX = "**/";
+  /** Path prefix of cache keys scoped to a named instance */
+  public static readonly INSTANCE_PREFIX = "@";
   private static instance: CacheManager;
   private cache: Map<string, CacheItem<any>>;
   private config: Required<CacheConfig>;
@@ -107,6 +112,20 @@ export class CacheManager {
     return item.data;
   }
 
+  /**
+   * Get item from cache even if it has expired
+   * Used as a fallback when fresh data cannot be loaded. Items removed by the
+   * periodic cleanup are no longer available.
+   */
+  public getStale<T>(key: string): T | null {
+    if (!this.config.enabled) {
+      return null;
+    }
+
+    const item = this.cache.get(key);
+    return item ? item.data : null;
+  }
+
   /**
    * Set item in cache
    */
@@ -189,34 +208,59 @@ export class CacheManager {
     };
   }
 
+  /**
+   * Scope a path to a named instance, so data of different apps and databases
+   * never share cache entries. The default instance uses the bare path.
+   */
+  public static scopePath(path: string, instance?: string): string {
+    if (!instance || instance === DEFAULT_INSTANCE) {
+      return path;
+    }
+    return `${CacheManager.INSTANCE_PREFIX}${instance}/${path}`;
+  }
+
   /**
    * Create cache key from query parameters
+   * Keys of named instances are scoped with scopePath. Collection group queries
+   * are keyed under GROUP_PREFIX followed by the collection ID, so writes to
+   * any collection with that ID can invalidate them
    */
   public static createKey(
     path: string,
     options: Record<string, any> = {}
   ): string {
-    const sortedOptions = Object.keys(options)
+    const { instance, collectionGroup, ...queryOptions } = options;
+    const keyPath = CacheManager.scopePath(
+      collectionGroup ? `${CacheManager.GROUP_PREFIX}${path}` : path,
+      instance
+    );
+
+    const sortedOptions = Object.keys(queryOptions)
       .sort()
       .reduce((acc, key) => {
-        if (options[key] !== undefined) {
-          acc[key] = options[key];
+        if (queryOptions[key] !== undefined) {
+          acc[key] = queryOptions[key];
         }
         return acc;
       }, {} as Record<string, any>);
 
-    return `${path}:${JSON.stringify(sortedOptions)}`;
+    return `${keyPath}:${JSON.stringify(sortedOptions)}`;
   }
 
   /**
    * Invalidates all cache entries that match the given path
+   * @param path - Path to invalidate (including everything below it)
+   * @param instance - Name of the instance the path belongs to
    */
-  public invalidateByPath(path: string): void {
+  public invalidateByPath(path: string, instance?: string): void {
     if (!this.config.enabled) return;
 
+    const scopedPath = CacheManager.scopePath(path, instance);
     const keysToRemove = Array.from(this.cache.keys()).filter((key) => {
       const [cachePath] = key.split(":");
-      return cachePath === path || cachePath.startsWith(`${path}/`);
+      return (
+        cachePath === scopedPath || cachePath.startsWith(`${scopedPath}/`)
+      );
     });
 
     keysToRemove.forEach((key) => {
@@ -230,15 +274,26 @@ export class CacheManager {
   }
 
   /**
-   * Invalidates all cache entries in a collection and its subcollections
+   * Invalidates all cache entries in a collection and its subcollections,
+   * including collection group queries over collections with the same ID
+   * @param collectionPath - Path to the collection
+   * @param instance - Name of the instance the collection belongs to
    */
-  public invalidateCollection(collectionPath: string): void {
+  public invalidateCollection(collectionPath: string, instance?: string): void {
     if (!this.config.enabled) return;
 
+    const scopedPath = CacheManager.scopePath(collectionPath, instance);
+    const collectionId = collectionPath.split("/").pop();
+    const groupKeyPrefix = `${CacheManager.scopePath(
+      `${CacheManager.GROUP_PREFIX}${collectionId}`,
+      instance
+    )}:`;
+
     const keysToRemove = Array.from(this.cache.keys()).filter(
       (key) =>
-        key.startsWith(`${collectionPath}:`) ||
-        key.startsWith(`${collectionPath}/`)
+        key.startsWith(`${scopedPath}:`) ||
+        key.startsWith(`${scopedPath}/`) ||
+        key.startsWith(groupKeyPrefix)
     );
 
     keysToRemove.forEach((key) => {
@@ -251,6 +306,33 @@ export class CacheManager {
     );
   }
 
+  /**
+   * Invalidates all cache entries of an instance, e.g. when it is reset
+   * @param instance - Name of the instance (the default instance if not specified)
+   */
+  public invalidateInstance(instance?: string): void {
+    if (!this.config.enabled) return;
+
+    // Keys of the default instance are the only ones without the instance prefix
+    const prefix = CacheManager.scopePath("", instance);
+    const keysToRemove = Array.from(this.cache.keys()).filter((key) =>
+      prefix
+        ? key.startsWith(prefix)
+        : !key.startsWith(CacheManager.INSTANCE_PREFIX)
+    );
+
+    keysToRemove.forEach((key) => {
+      this.cache.delete(key);
+      logger.debug(`Invalidated cache for key: ${key}`);
+    });
+
+    logger.info(
+      `Invalidated ${keysToRemove.length} cache entries for instance: ${
+        instance ?? DEFAULT_INSTANCE
+      }`
+    );
+  }
+
   /**
    * Remove least recently used item from cache
    */
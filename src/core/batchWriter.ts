@@ -0,0 +1,143 @@
+import {
+  writeBatch,
+  DocumentReference,
+  DocumentData,
+  Firestore,
+} from "firebase/firestore";
+import { CacheManager } from "../cache/cacheManager";
+import { Logger } from "../logging";
+
+/**
+ * Maximum number of operations Firestore allows in a single write batch
+ */
+export const MAX_BATCH_SIZE = 500;
+
+/**
+ * A single write prepared for a Firestore write batch
+ */
+export interface PreparedWrite {
+  /** Kind of the write */
+  type: "set" | "update" | "delete";
+  /** Reference of the written document */
+  ref: DocumentReference;
+  /** Path to the collection containing the document */
+  path: string;
+  /** Data to write (not used for deletes) */
+  data?: DocumentData;
+}
+
+/**
+ * Splits an array into chunks of the given size
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Invalidates document and collection cache entries for all written documents
+ * @param cache - Cache manager instance
+ * @param writes - Committed writes
+ * @param instance - Name of the instance the writes were committed to
+ */
+export function invalidateWrites(
+  cache: CacheManager,
+  writes: PreparedWrite[],
+  instance?: string
+): void {
+  const collections = new Set<string>();
+
+  writes.forEach((write) => {
+    cache.remove(
+      CacheManager.createKey(write.path, { docId: write.ref.id, instance })
+    );
+    collections.add(write.path);
+  });
+
+  collections.forEach((path) => cache.invalidateCollection(path, instance));
+}
+
+/**
+ * Commits writes in batches of at most MAX_BATCH_SIZE operations
+ * Each batch is atomic on its own; batches are committed one after another
+ * and the first failing batch stops the rest.
+ *
+ * @param firestore - Firestore instance
+ * @param writes - Writes to commit
+ * @param options.onCommitted - Called with the writes of each successfully committed batch
+ * @param options.logger - Logger of the calling operation
+ * @returns Number of committed batches
+ */
+export async function commitWrites(
+  firestore: Firestore,
+  writes: PreparedWrite[],
+  options: {
+    onCommitted?: (writes: PreparedWrite[]) => void;
+    logger?: Logger;
+  } = {}
+): Promise<number> {
+  const { onCommitted, logger } = options;
+  const chunks = chunk(writes, MAX_BATCH_SIZE);
+
+  for (let i = 0; i < chunks.length; i++) {
+    const batch = writeBatch(firestore);
+
+    chunks[i].forEach((write) => {
+      if (write.type === "set") {
+        batch.set(write.ref, write.data as DocumentData);
+      } else if (write.type === "update") {
+        batch.update(write.ref, write.data as DocumentData);
+      } else {
+        batch.delete(write.ref);
+      }
+    });
+
+    logger?.debug(
+      `Committing batch ${i + 1}/${chunks.length} with ${chunks[i].length} writes`
+    );
+    await batch.commit();
+    onCommitted?.(chunks[i]);
+  }
+
+  return chunks.length;
+}
+
+/**
+ * Commits writes in batches like commitWrites, but continues after a failing batch
+ * @param firestore - Firestore instance
+ * @param writes - Writes to commit
+ * @param options.onCommitted - Called with the writes of each successfully committed batch
+ * @param options.logger - Logger of the calling operation
+ * @returns Number of committed and failed writes, and the error of the first failing batch
+ */
+export async function commitWritesSettled(
+  firestore: Firestore,
+  writes: PreparedWrite[],
+  options: {
+    onCommitted?: (writes: PreparedWrite[]) => void;
+    logger?: Logger;
+  } = {}
+): Promise<{ committed: number; failed: number; error: unknown }> {
+  let committed = 0;
+  let failed = 0;
+  let error: unknown = null;
+
+  for (const writesChunk of chunk(writes, MAX_BATCH_SIZE)) {
+    try {
+      await commitWrites(firestore, writesChunk, options);
+      committed += writesChunk.length;
+    } catch (chunkError) {
+      options.logger?.error(
+        `Batch with ${writesChunk.length} writes failed`,
+        chunkError
+      );
+      failed += writesChunk.length;
+      error = error ?? chunkError;
+    }
+  }
+
+  return { committed, failed, error };
+}
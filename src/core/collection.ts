@@ -0,0 +1,293 @@
+import { Unsubscribe } from "firebase/firestore";
+import { getData, GetDataOptions } from "./operations/getData";
+import { createData } from "./operations/createData";
+import { updateData } from "./operations/updateData";
+import { deleteData } from "./operations/deleteData";
+import { listenData } from "./operations/listenData";
+import {
+  CreateOptions,
+  DeleteOptions,
+  DocumentChangeEvent,
+  ListenOptions,
+  Result,
+  SnapshotMetadata,
+  UpdateOptions,
+} from "../types";
+import { fillPathPattern } from "../utils/pathPattern";
+import { handleError, reportError } from "../errors";
+import { createLogger } from "../logging";
+
+const logger = createLogger("collection");
+
+/**
+ * Names of the placeholders in a path template
+ * @example PathParamNames<'orgs/{orgId}/teams/{teamId}/members'> // 'orgId' | 'teamId'
+ */
+export type PathParamNames<P extends string> =
+  P extends `${string}{${infer Param}}${infer Rest}`
+    ? Param | PathParamNames<Rest>
+    : never;
+
+/**
+ * Values of the placeholders in a path template
+ * Templates only known as `string` accept any parameters
+ */
+export type PathParams<P extends string> = string extends P
+  ? Record<string, string>
+  : { [K in PathParamNames<P>]: string };
+
+/**
+ * `params` option of the handle methods - required only if the template has placeholders
+ */
+export type PathParamsOption<P extends string> = string extends P
+  ? { params?: Record<string, string> }
+  : [PathParamNames<P>] extends [never]
+  ? { params?: undefined }
+  : { params: PathParams<P> };
+
+/**
+ * Path template containing at least one placeholder
+ */
+export type PlaceholderTemplate = `${string}{${string}}${string}`;
+
+/**
+ * Document data with its ID, as returned by the handle methods
+ */
+export type WithId<T> = T & { id: string };
+
+type GetHandleOptions = Omit<GetDataOptions, "path" | "docId" | "paginate">;
+type ListenHandleOptions = Omit<
+  ListenOptions,
+  "path" | "docId" | "onNext" | "onChanges" | "collectionGroup"
+>;
+
+/**
+ * Options of listen for a single document
+ */
+type DocumentListenOptions<
+  T extends object,
+  P extends string
+> = ListenHandleOptions &
+  PathParamsOption<P> & {
+    docId: string;
+    onNext: (data: WithId<T> | null, metadata?: SnapshotMetadata) => void;
+  };
+
+/**
+ * Options of listen for the documents of the collection
+ */
+type CollectionListenOptions<
+  T extends object,
+  P extends string
+> = ListenHandleOptions &
+  PathParamsOption<P> & {
+    docId?: undefined;
+    onNext?: (data: WithId<T>[], metadata?: SnapshotMetadata) => void;
+    onChanges?: (
+      changes: DocumentChangeEvent<WithId<T>>[],
+      metadata?: SnapshotMetadata
+    ) => void;
+  };
+
+/**
+ * Typed reference to a collection created by defineCollection
+ * All methods run the regular operations (including middleware, validation and cache)
+ */
+export interface CollectionHandle<T extends object, P extends string = string> {
+  /** Path template of the collection */
+  readonly template: P;
+  /** Resolves the path of the collection for the given parameters */
+  path(...args: PathParamsArgs<P>): string;
+  /** Gets a single document */
+  get(
+    options: { docId: string } & GetHandleOptions & PathParamsOption<P>
+  ): Promise<Result<WithId<T>>>;
+  /** Gets documents of the collection (optionally filtered, sorted and limited) */
+  list(
+    ...args: HandleArgs<P, Omit<GetHandleOptions, "collectionGroup">>
+  ): Promise<Result<WithId<T>[]>>;
+  /** Creates a document */
+  create(
+    options: Omit<CreateOptions<T>, "path"> & PathParamsOption<P>
+  ): Promise<Result<WithId<T>>>;
+  /** Updates a document (merges by default) */
+  update(
+    options: Omit<UpdateOptions<T>, "path"> & PathParamsOption<P>
+  ): Promise<Result<WithId<T>>>;
+  /** Deletes a document */
+  remove(
+    options: Omit<DeleteOptions, "path"> & PathParamsOption<P>
+  ): Promise<Result<null>>;
+  /** Listens to a single document */
+  listen(options: DocumentListenOptions<T, P>): Unsubscribe;
+  /** Listens to documents of the collection */
+  listen(options: CollectionListenOptions<T, P>): Unsubscribe;
+}
+
+/**
+ * Arguments of methods whose options are optional for templates without placeholders
+ */
+type HandleArgs<P extends string, O> = string extends P
+  ? [options?: O & PathParamsOption<P>]
+  : [PathParamNames<P>] extends [never]
+  ? [options?: O & PathParamsOption<P>]
+  : [options: O & PathParamsOption<P>];
+
+/**
+ * Arguments of path() - the parameters, if the template has placeholders
+ */
+type PathParamsArgs<P extends string> = string extends P
+  ? [params?: Record<string, string>]
+  : [PathParamNames<P>] extends [never]
+  ? []
+  : [params: PathParams<P>];
+
+/**
+ * Resolves the collection path of a handle call, or returns the error as a Result
+ */
+function resolvePath(
+  template: string,
+  params: Record<string, string> | undefined
+): { path: string; error: null } | { path: null; error: Result<any> } {
+  try {
+    return { path: fillPathPattern(template, params), error: null };
+  } catch (error) {
+    const structuredError = handleError(error);
+    reportError(structuredError);
+    logger.error(structuredError.message);
+    return {
+      path: null,
+      error: { data: null, error: structuredError, loading: false },
+    };
+  }
+}
+
+function createHandle<T extends object, P extends string>(
+  template: P
+): CollectionHandle<T, P> {
+  return {
+    template,
+
+    path(...args: PathParamsArgs<P>) {
+      return fillPathPattern(template, args[0] as Record<string, string>);
+    },
+
+    async get({ params, ...options }) {
+      const { path, error } = resolvePath(template, params);
+      if (error) return error;
+      return getData<WithId<T>>({ ...options, path });
+    },
+
+    async list(...args) {
+      const { params, ...options } = (args[0] ?? {}) as GetHandleOptions & {
+        params?: Record<string, string>;
+      };
+      const { path, error } = resolvePath(template, params);
+      if (error) return error;
+      return getData<WithId<T>[]>({ ...options, path });
+    },
+
+    async create({ params, ...options }) {
+      const { path, error } = resolvePath(template, params);
+      if (error) return error;
+      return createData<T>({ ...options, path } as CreateOptions<T>) as Promise<
+        Result<WithId<T>>
+      >;
+    },
+
+    async update({ params, ...options }) {
+      const { path, error } = resolvePath(template, params);
+      if (error) return error;
+      return updateData<WithId<T>>({
+        ...options,
+        path,
+      } as UpdateOptions<WithId<T>>);
+    },
+
+    async remove({ params, ...options }) {
+      const { path, error } = resolvePath(template, params);
+      if (error) return error;
+      return deleteData({ ...options, path }) as Promise<Result<null>>;
+    },
+
+    listen(
+      options: DocumentListenOptions<T, P> | CollectionListenOptions<T, P>
+    ): Unsubscribe {
+      const { params, ...listenOptions } = options as (
+        | DocumentListenOptions<T, P>
+        | CollectionListenOptions<T, P>
+      ) & { params?: Record<string, string> };
+      try {
+        const path = fillPathPattern(template, params);
+        return listenData({ ...listenOptions, path } as ListenOptions<
+          WithId<T>
+        >);
+      } catch (error) {
+        logger.error("Error setting up listener:", error);
+        options.onError?.(handleError(error));
+        return () => {};
+      }
+    },
+  };
+}
+
+/**
+ * Defines a typed reference to a collection
+ * The path template may contain placeholders like `{orgId}`, which are passed as
+ * `params` to the handle methods and checked at compile time.
+ *
+ * Call it with the document type first and the template second, so TypeScript can
+ * infer the placeholders: `defineCollection<User>()('orgs/{orgId}/members')`.
+ * `defineCollection('users')` works without a document type.
+ *
+ * TypeScript cannot infer the template when the document type is passed to a single
+ * call. `defineCollection<User>('users')` works as usual, but with a placeholder
+ * template like `defineCollection<User>('orgs/{orgId}/members')` the handle only
+ * requires `params`, without checking their names.
+ *
+ * @template T - Type of the documents
+ * @param template - Path template of the collection
+ * @returns Typed collection handle
+ *
+ * @example
+ * interface Member { name: string; role: 'admin' | 'member' }
+ *
+ * const members = defineCollection<Member>()('orgs/{orgId}/members');
+ *
+ * const { data } = await members.list({
+ *   params: { orgId: 'acme' },
+ *   where: [['role', '==', 'admin']]
+ * });
+ *
+ * await members.create({
+ *   params: { orgId: 'acme' },
+ *   data: { name: 'John', role: 'member' }
+ * });
+ *
+ * // Compile error - missing orgId
+ * await members.get({ docId: 'john' });
+ */
+export function defineCollection<T extends object>(): <P extends string>(
+  template: P
+) => CollectionHandle<T, P>;
+export function defineCollection<
+  T extends object = Record<string, any>,
+  P extends string = never
+>(template: P): CollectionHandle<T, P>;
+export function defineCollection<T extends object>(
+  template: PlaceholderTemplate
+): CollectionHandle<T, PlaceholderTemplate>;
+export function defineCollection<T extends object>(
+  template: string
+): CollectionHandle<T>;
+export function defineCollection<T extends object, P extends string>(
+  template?: P
+):
+  | CollectionHandle<T, P>
+  | (<Q extends string>(template: Q) => CollectionHandle<T, Q>) {
+  if (template === undefined) {
+    return <Q extends string>(curriedTemplate: Q) =>
+      createHandle<T, Q>(curriedTemplate);
+  }
+  return createHandle<T, P>(template);
+}
@@ -0,0 +1,92 @@
+import { matchPathPattern } from "../utils/pathPattern";
+
+/**
+ * Configuration of a feature that can be enabled globally or per collection
+ */
+export interface CollectionConfig<C extends object> {
+  /**
+   * Changes the global configuration or the configuration of a collection
+   * @param config - true to enable with the current (or default) options, false to disable, or options
+   * @param pattern - Optional path pattern of the collection
+   * @returns The updated configuration (null if disabled)
+   */
+  configure(
+    config: Partial<C> | boolean,
+    pattern?: string
+  ): Required<C> | null;
+  /**
+   * Returns the configuration of a collection (the global one if no path is given)
+   * The most recently configured matching pattern overrides the global configuration.
+   * @returns The configuration, or null if the feature is disabled
+   */
+  get(path?: string): Required<C> | null;
+  /** Disables the feature and removes all collection configurations */
+  reset(): void;
+}
+
+/**
+ * Creates the configuration of a feature that is disabled until configured
+ * @param defaults - Options used when the feature is enabled without options
+ */
+export function createCollectionConfig<C extends object>(
+  defaults: Required<C>
+): CollectionConfig<C> {
+  // Global configuration (null = disabled)
+  let globalConfig: Required<C> | null = null;
+
+  // Configuration of collections in the order they were configured
+  let collectionConfigs: Array<{
+    pattern: string;
+    config: Required<C> | null;
+  }> = [];
+
+  const merge = (
+    current: Required<C> | null,
+    config: Partial<C> | boolean
+  ): Required<C> | null => {
+    if (config === false) {
+      return null;
+    }
+    const base = current ?? globalConfig ?? defaults;
+    return config === true ? { ...base } : { ...base, ...config };
+  };
+
+  return {
+    configure(config, pattern) {
+      if (pattern === undefined) {
+        globalConfig = merge(globalConfig, config);
+        return globalConfig ? { ...globalConfig } : null;
+      }
+
+      const existing = collectionConfigs.find(
+        (item) => item.pattern === pattern
+      );
+      const updated = {
+        pattern,
+        config: merge(existing ? existing.config : null, config),
+      };
+      collectionConfigs = [
+        ...collectionConfigs.filter((item) => item !== existing),
+        updated,
+      ];
+      return updated.config ? { ...updated.config } : null;
+    },
+
+    get(path) {
+      if (path !== undefined) {
+        for (let i = collectionConfigs.length - 1; i >= 0; i--) {
+          if (matchPathPattern(collectionConfigs[i].pattern, path)) {
+            const { config } = collectionConfigs[i];
+            return config ? { ...config } : null;
+          }
+        }
+      }
+      return globalConfig ? { ...globalConfig } : null;
+    },
+
+    reset() {
+      globalConfig = null;
+      collectionConfigs = [];
+    },
+  };
+}
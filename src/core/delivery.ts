@@ -0,0 +1,135 @@
+import { DocumentChangeEvent } from "../types";
+
+/**
+ * Rate limit of listener deliveries
+ */
+export interface DeliveryOptions {
+  /** Deliver once no new snapshot arrived for this many milliseconds */
+  debounceMs?: number;
+  /** Deliver at most once per this many milliseconds */
+  throttleMs?: number;
+}
+
+/**
+ * Schedules the delivery of the latest snapshot of a listener
+ */
+export interface DeliveryScheduler {
+  /** Requests a delivery - called for every snapshot */
+  schedule(): void;
+  /** Cancels a pending delivery */
+  cancel(): void;
+}
+
+/**
+ * Creates a scheduler coalescing listener deliveries
+ * With throttleMs the first snapshot is delivered immediately and later ones at
+ * the end of each interval. With debounceMs a snapshot is delivered once the
+ * listener has been quiet for the given time. The delivery always uses the
+ * latest snapshot.
+ *
+ * @param options - Rate limit of the deliveries
+ * @param deliver - Delivers the latest snapshot
+ * @returns The scheduler, or null if no rate limit is set
+ */
+export function createDeliveryScheduler(
+  options: DeliveryOptions,
+  deliver: () => void
+): DeliveryScheduler | null {
+  const { debounceMs = 0, throttleMs = 0 } = options;
+  if (debounceMs <= 0 && throttleMs <= 0) {
+    return null;
+  }
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastDelivery = -Infinity;
+
+  const flush = () => {
+    timer = null;
+    lastDelivery = Date.now();
+    deliver();
+  };
+
+  return {
+    schedule() {
+      if (debounceMs > 0) {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        timer = setTimeout(flush, debounceMs);
+        return;
+      }
+
+      if (timer) {
+        return;
+      }
+      const wait = lastDelivery + throttleMs - Date.now();
+      if (wait <= 0) {
+        flush();
+      } else {
+        timer = setTimeout(flush, wait);
+      }
+    },
+    cancel() {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+  };
+}
+
+/**
+ * Delivered document with its full path, which identifies it across collections
+ */
+export interface DeliveredDocument<T> {
+  path: string;
+  doc: T;
+}
+
+/**
+ * Computes the changes between two delivered lists of documents
+ * The events are in the form Firestore reports them: applying them in order to
+ * the previous list (removing at oldIndex, inserting at newIndex) gives the
+ * next list.
+ *
+ * @param previous - Documents of the last delivery
+ * @param next - Documents of the new delivery
+ * @param modified - Paths of the documents modified since the last delivery
+ * @returns Change events of the documents
+ */
+export function diffDocuments<T>(
+  previous: DeliveredDocument<T>[],
+  next: DeliveredDocument<T>[],
+  modified: Set<string>
+): DocumentChangeEvent<T>[] {
+  const changes: DocumentChangeEvent<T>[] = [];
+  const nextPaths = new Set(next.map((item) => item.path));
+  const working: string[] = [];
+
+  previous.forEach((item) => {
+    if (nextPaths.has(item.path)) {
+      working.push(item.path);
+    } else {
+      changes.push({
+        type: "removed",
+        doc: item.doc,
+        oldIndex: working.length,
+        newIndex: -1,
+      });
+    }
+  });
+
+  next.forEach((item, newIndex) => {
+    const oldIndex = working.indexOf(item.path);
+    if (oldIndex === -1) {
+      changes.push({ type: "added", doc: item.doc, oldIndex, newIndex });
+      working.splice(newIndex, 0, item.path);
+    } else if (oldIndex !== newIndex || modified.has(item.path)) {
+      changes.push({ type: "modified", doc: item.doc, oldIndex, newIndex });
+      working.splice(oldIndex, 1);
+      working.splice(newIndex, 0, item.path);
+    }
+  });
+
+  return changes;
+}
@@ -1,38 +1,118 @@
-import { initializeApp } from "firebase/app";
-import { getFirestore } from "firebase/firestore";
-import { FirebaseConfig, FirebaseState } from "../types";
+import { initializeApp, deleteApp } from "firebase/app";
+import {
+  getFirestore,
+  connectFirestoreEmulator,
+  terminate,
+} from "firebase/firestore";
+import {
+  EmulatorOptions,
+  FirebaseConfig,
+  FirebaseState,
+  InitializeOptions,
+} from "../types";
+import { createLogger } from "../logging";
+import { unsubscribeAll } from "./listenerRegistry";
+import { CacheManager } from "../cache/cacheManager";
 
-// Global Firebase state
-let state: FirebaseState = {
-  app: null,
-  firestore: null,
-  initialized: false,
-};
+const logger = createLogger("firebase");
+
+/**
+ * Name of the default instance (same as the default Firebase app name)
+ */
+export const DEFAULT_INSTANCE = "[DEFAULT]";
+
+// Firebase state of each initialized instance, keyed by instance name
+const instances = new Map<string, FirebaseState>();
+
+/**
+ * Reads the emulator address from the FIRESTORE_EMULATOR_HOST environment variable
+ * @returns Emulator options or null if the variable is not set or invalid
+ */
+export function getEmulatorFromEnv(): EmulatorOptions | null {
+  const value =
+    typeof process !== "undefined" && process.env
+      ? process.env.FIRESTORE_EMULATOR_HOST
+      : undefined;
+
+  if (!value) {
+    return null;
+  }
+
+  const separatorIndex = value.lastIndexOf(":");
+  const host = value.slice(0, separatorIndex);
+  const port = Number(value.slice(separatorIndex + 1));
+
+  if (separatorIndex <= 0 || !Number.isInteger(port)) {
+    logger.warn(`Ignoring invalid FIRESTORE_EMULATOR_HOST value: ${value}`);
+    return null;
+  }
+
+  return { host, port };
+}
 
 /**
  * Initializes Firebase with configuration
+ * Call it again with a different name to register additional apps or databases
  * @param config - Firebase configuration
+ * @param options - Initialization options (instance name, database ID, Firestore emulator)
  * @returns Firebase and Firestore instance
+ *
+ * @example
+ * // Default instance
+ * initializeFirebase(config);
+ *
+ * // Named database in the same project
+ * initializeFirebase(config, { name: 'analytics', databaseId: 'analytics-db' });
+ * await getData({ path: 'events', instance: 'analytics' });
  */
-export function initializeFirebase(config: FirebaseConfig) {
-  if (state.initialized) {
-    console.warn("Firebase has already been initialized.");
-    return { app: state.app, firestore: state.firestore };
+export function initializeFirebase(
+  config: FirebaseConfig,
+  options: InitializeOptions = {}
+) {
+  const name = options.name ?? DEFAULT_INSTANCE;
+  const existing = instances.get(name);
+
+  if (existing) {
+    console.warn(
+      name === DEFAULT_INSTANCE
+        ? "Firebase has already been initialized."
+        : `Firebase instance "${name}" has already been initialized.`
+    );
+    return { app: existing.app, firestore: existing.firestore };
   }
 
   try {
     // Initializing Firebase application
-    const app = initializeApp(config);
+    const app =
+      name === DEFAULT_INSTANCE
+        ? initializeApp(config)
+        : initializeApp(config, name);
 
     // Getting Firestore instance
-    const firestore = getFirestore(app);
+    const firestore = options.databaseId
+      ? getFirestore(app, options.databaseId)
+      : getFirestore(app);
+
+    // Connect to the emulator before any operation runs
+    const emulator =
+      options.emulator === false
+        ? null
+        : options.emulator ?? getEmulatorFromEnv();
+
+    if (emulator) {
+      logger.info(
+        `Connecting to Firestore emulator at ${emulator.host}:${emulator.port}`
+      );
+      connectFirestoreEmulator(firestore, emulator.host, emulator.port);
+    }
 
     // Update state
-    state = {
+    instances.set(name, {
       app,
       firestore,
       initialized: true,
-    };
+      emulator,
+    });
 
     return { app, firestore };
   } catch (error) {
@@ -42,25 +122,68 @@ export function initializeFirebase(config: FirebaseConfig) {
 }
 
 /**
- * Returns the current Firebase and Firestore instance or throws an error if not initialized
+ * Returns the Firebase and Firestore instance or throws an error if not initialized
+ * @param name - Name of the instance (defaults to the default instance)
  */
-export function getFirebaseInstance() {
-  if (!state.initialized || !state.app || !state.firestore) {
+export function getFirebaseInstance(name: string = DEFAULT_INSTANCE) {
+  const state = instances.get(name);
+
+  if (!state || !state.initialized || !state.app || !state.firestore) {
     throw new Error(
-      "Firebase is not initialized. Please call initializeFirebase() first."
+      name === DEFAULT_INSTANCE
+        ? "Firebase is not initialized. Please call initializeFirebase() first."
+        : `Firebase instance "${name}" is not initialized. Please call initializeFirebase() with { name: "${name}" } first.`
     );
   }
 
   return { app: state.app, firestore: state.firestore };
 }
 
+/**
+ * Returns the names of all initialized instances
+ */
+export function getInstanceNames(): string[] {
+  return Array.from(instances.keys());
+}
+
 /**
  * Resets the Firebase initialization
+ * Terminates the Firestore instance and deletes the Firebase app, so Firebase
+ * (and the emulator connection) can be initialized again, e.g. between test suites.
+ * Cached data of the instances is invalidated. The teardown starts synchronously -
+ * deleting an app frees its name at once, so initializeFirebase may be called
+ * before the promise resolves.
+ * @param name - Name of the instance to reset (all instances if not specified)
+ * @returns Promise resolved when the teardown has finished
  */
-export function resetFirebase() {
-  state = {
-    app: null,
-    firestore: null,
-    initialized: false,
-  };
+export async function resetFirebase(name?: string): Promise<void> {
+  const names = name ? [name] : Array.from(instances.keys());
+  const states = names
+    .map((instanceName) => instances.get(instanceName))
+    .filter((state): state is FirebaseState => !!state);
+
+  // Clear the state first so no new operation uses the old instances
+  names.forEach((instanceName) => instances.delete(instanceName));
+
+  // Stop the listeners, so new listeners do not join the terminated ones
+  names.forEach((instanceName) => unsubscribeAll(instanceName));
+
+  // The name may be initialized again with another project or database
+  names.forEach((instanceName) =>
+    CacheManager.getInstance().invalidateInstance(instanceName)
+  );
+
+  // Start every teardown before awaiting anything - an un-awaited reset followed
+  // by initializeFirebase would otherwise get the old app back from initializeApp,
+  // which the pending deleteApp then deletes
+  const teardowns = states.map(({ app, firestore }) =>
+    Promise.all([
+      firestore ? terminate(firestore) : undefined,
+      app ? deleteApp(app) : undefined,
+    ]).catch((error) => {
+      logger.warn("Error tearing down Firebase instance", error);
+    })
+  );
+
+  await Promise.all(teardowns);
 }
@@ -0,0 +1,204 @@
+import { Unsubscribe } from "firebase/firestore";
+import { ActiveListener } from "../types";
+import { createLogger } from "../logging";
+
+const logger = createLogger("listenerRegistry");
+
+/**
+ * Callbacks of the underlying snapshot listener
+ */
+export interface ListenerSink<S> {
+  next: (snapshot: S) => void;
+  error: (error: unknown) => void;
+}
+
+/**
+ * Callbacks of one subscriber of a shared listener
+ */
+export interface ListenerSubscriber<S> {
+  /** Called with each snapshot - first is true for the first snapshot the subscriber receives */
+  next: (snapshot: S, first: boolean) => void;
+  /** Called when the underlying listener fails (it is closed afterwards) */
+  error: (error: unknown) => void;
+  /** Called when the subscription is ended by unsubscribeAll */
+  stop?: () => void;
+}
+
+/**
+ * Target of a shared listener, as reported by listActiveListeners
+ */
+export type ListenerTarget = Pick<
+  ActiveListener,
+  "path" | "docId" | "instance"
+>;
+
+interface Subscription {
+  subscriber: ListenerSubscriber<any>;
+  received: boolean;
+}
+
+interface SharedListener {
+  key: string;
+  target: ListenerTarget;
+  since: Date;
+  subscriptions: Set<Subscription>;
+  snapshot: { value: unknown } | null;
+  stop: Unsubscribe | null;
+  closed: boolean;
+}
+
+// Shared listeners by their key
+const listeners = new Map<string, SharedListener>();
+
+/**
+ * Stops the underlying listener and removes it from the registry
+ * @param listener - The listener to close
+ * @param notify - Whether to call stop of the remaining subscribers
+ */
+function closeListener(listener: SharedListener, notify = true): void {
+  if (listeners.get(listener.key) === listener) {
+    listeners.delete(listener.key);
+  }
+  listener.closed = true;
+  const subscriptions = [...listener.subscriptions];
+  listener.subscriptions.clear();
+  if (notify) {
+    subscriptions.forEach((item) => item.subscriber.stop?.());
+  }
+  listener.stop?.();
+  listener.stop = null;
+}
+
+/**
+ * Delivers a snapshot to a subscriber
+ */
+function deliver(subscription: Subscription, snapshot: unknown): void {
+  const first = !subscription.received;
+  subscription.received = true;
+  subscription.subscriber.next(snapshot, first);
+}
+
+/**
+ * Subscribes to a shared snapshot listener
+ * Subscribers with the same key share one underlying listener, which is started by
+ * the first subscriber and stopped when the last one unsubscribes. Subscribers
+ * joining a running listener receive its last snapshot first.
+ *
+ * @param key - Key of the listener (CacheManager.createKey of the listened query)
+ * @param target - Path, document ID and instance of the listener
+ * @param start - Starts the underlying listener and returns its unsubscribe function
+ * @param subscriber - Callbacks of the subscriber
+ * @returns Function removing the subscriber
+ */
+export function subscribeListener<S>(
+  key: string,
+  target: ListenerTarget,
+  start: (sink: ListenerSink<S>) => Unsubscribe,
+  subscriber: ListenerSubscriber<S>
+): Unsubscribe {
+  const subscription: Subscription = { subscriber, received: false };
+  let listener = listeners.get(key);
+
+  if (listener) {
+    logger.debug(`Sharing listener ${key}`);
+    listener.subscriptions.add(subscription);
+
+    // Replay the last snapshot asynchronously, like a new snapshot listener would
+    const joined = listener;
+    if (joined.snapshot) {
+      const { value } = joined.snapshot;
+      Promise.resolve().then(() => {
+        if (joined.subscriptions.has(subscription) && !subscription.received) {
+          deliver(subscription, value);
+        }
+      });
+    }
+  } else {
+    logger.debug(`Starting listener ${key}`);
+    const created: SharedListener = {
+      key,
+      target,
+      since: new Date(),
+      subscriptions: new Set([subscription]),
+      snapshot: null,
+      stop: null,
+      closed: false,
+    };
+    listeners.set(key, created);
+    listener = created;
+
+    try {
+      const stop = start({
+        next: (snapshot) => {
+          created.snapshot = { value: snapshot };
+          [...created.subscriptions]
+            .filter((item) => created.subscriptions.has(item))
+            .forEach((item) => deliver(item, snapshot));
+        },
+        error: (error) => {
+          // A failed snapshot listener does not recover, so it is closed
+          const subscriptions = [...created.subscriptions];
+          closeListener(created, false);
+          subscriptions.forEach((item) => item.subscriber.error(error));
+        },
+      });
+
+      if (created.closed) {
+        stop();
+      } else {
+        created.stop = stop;
+      }
+    } catch (error) {
+      closeListener(created, false);
+      throw error;
+    }
+  }
+
+  const subscribed = listener;
+  return () => {
+    if (!subscribed.subscriptions.delete(subscription)) {
+      return;
+    }
+    if (subscribed.subscriptions.size === 0) {
+      logger.debug(`Stopping listener ${key}`);
+      closeListener(subscribed, false);
+    }
+  };
+}
+
+/**
+ * Returns the running real-time listeners
+ * Useful for finding listeners that were never unsubscribed.
+ *
+ * @returns Listeners with their number of subscribers
+ *
+ * @example
+ * listActiveListeners().forEach(({ path, docId, subscribers }) => {
+ *   console.log(`${path}/${docId ?? ''}: ${subscribers} subscribers`);
+ * });
+ */
+export function listActiveListeners(): ActiveListener[] {
+  return Array.from(listeners.values()).map((listener) => ({
+    key: listener.key,
+    ...listener.target,
+    subscribers: listener.subscriptions.size,
+    since: listener.since,
+  }));
+}
+
+/**
+ * Stops all real-time listeners, e.g. on logout
+ * Listeners are notified through their onClose callback, and their unsubscribe
+ * functions become no-ops.
+ *
+ * @param instance - Name of the instance whose listeners to stop (all if not specified)
+ * @returns Number of stopped listeners
+ */
+export function unsubscribeAll(instance?: string): number {
+  const stopped = Array.from(listeners.values()).filter(
+    (listener) => !instance || listener.target.instance === instance
+  );
+  stopped.forEach((listener) => closeListener(listener));
+  logger.debug(`Stopped ${stopped.length} listeners`);
+  return stopped.length;
+}
@@ -0,0 +1,211 @@
+import { Unsubscribe } from "firebase/firestore";
+import type { GetDataOptions } from "./operations/getData";
+import {
+  CreateOptions,
+  DeleteOptions,
+  ListenOptions,
+  Result,
+  UpdateOptions,
+} from "../types";
+import { handleError, reportError } from "../errors";
+import { createLogger } from "../logging";
+
+const logger = createLogger("middleware");
+
+/**
+ * Names of the operations passing through the middleware pipeline
+ * (the short aliases of the operations)
+ */
+export type OperationName =
+  | "get"
+  | "create"
+  | "update"
+  | "removeDoc"
+  | "listen";
+
+/**
+ * Operation and its options passed to middleware
+ * Check `operation` to narrow the type of `options`
+ */
+export type MiddlewareContext =
+  | { operation: "get"; options: GetDataOptions }
+  | { operation: "create"; options: CreateOptions<any> }
+  | { operation: "update"; options: UpdateOptions<any> }
+  | { operation: "removeDoc"; options: DeleteOptions }
+  | { operation: "listen"; options: ListenOptions<any> };
+
+/**
+ * Options of an operation, as passed to its middleware
+ */
+type OperationOptions<N extends OperationName> = Extract<
+  MiddlewareContext,
+  { operation: N }
+>["options"];
+
+/**
+ * Output of an operation - a Result, or an unsubscribe function for listen
+ */
+export type MiddlewareOutput = Result<any> | Unsubscribe;
+
+/**
+ * Calls the next middleware (or the operation itself)
+ * @param options - Options to continue with (the current options if not specified)
+ */
+export type MiddlewareNext = (
+  options?: MiddlewareContext["options"]
+) => MiddlewareOutput | Promise<MiddlewareOutput>;
+
+/**
+ * Middleware wrapping the operations
+ * Return the output of next() (optionally post-processed), or return a Result
+ * without calling next() to short-circuit the operation
+ */
+export type Middleware = (
+  context: MiddlewareContext,
+  next: MiddlewareNext
+) => MiddlewareOutput | Promise<MiddlewareOutput>;
+
+// Registered middleware in the order they run
+let middlewares: Middleware[] = [];
+
+/**
+ * Registers middleware that runs around get, create, update, removeDoc and listen
+ * Middleware runs in the order it was registered; the first one is the outermost.
+ *
+ * @param middleware - Middleware to register
+ * @returns Function removing the middleware again
+ *
+ * @example
+ * // Prefix all paths with the current tenant
+ * use(({ options }, next) =>
+ *   next({ ...options, path: `tenants/${tenantId}/${options.path}` })
+ * );
+ *
+ * @example
+ * // Measure operation duration
+ * use(async ({ operation }, next) => {
+ *   const start = Date.now();
+ *   const output = await next();
+ *   metrics.record(operation, Date.now() - start);
+ *   return output;
+ * });
+ */
+export function use(middleware: Middleware): () => void {
+  middlewares = [...middlewares, middleware];
+  logger.debug(`Registered middleware (${middlewares.length} in total)`);
+
+  return () => {
+    middlewares = middlewares.filter((item) => item !== middleware);
+  };
+}
+
+/**
+ * Runs the middleware chain registered at the time of the call
+ * Middleware is expected to pass on options of the same operation to next()
+ */
+function dispatch<O extends MiddlewareContext["options"]>(
+  chain: Middleware[],
+  operation: OperationName,
+  options: O,
+  execute: (options: O) => MiddlewareOutput | Promise<MiddlewareOutput>
+): MiddlewareOutput | Promise<MiddlewareOutput> {
+  const run = (
+    index: number,
+    currentOptions: MiddlewareContext["options"]
+  ): MiddlewareOutput | Promise<MiddlewareOutput> => {
+    if (index === chain.length) {
+      return execute(currentOptions as O);
+    }
+    return chain[index](
+      { operation, options: currentOptions } as MiddlewareContext,
+      (nextOptions = currentOptions) => run(index + 1, nextOptions)
+    );
+  };
+
+  return run(0, options);
+}
+
+/**
+ * Runs a one-shot operation through the middleware pipeline
+ * Errors thrown by middleware are converted to a Result like errors of the operation
+ *
+ * @param operation - Name of the operation
+ * @param options - Options the operation was called with
+ * @param execute - The operation itself
+ */
+export async function runOperation<
+  N extends Exclude<OperationName, "listen">,
+  O extends OperationOptions<N>,
+  R extends MiddlewareOutput
+>(operation: N, options: O, execute: (options: O) => Promise<R>): Promise<R> {
+  if (middlewares.length === 0) {
+    return execute(options);
+  }
+
+  try {
+    return (await dispatch(middlewares, operation, options, execute)) as R;
+  } catch (error) {
+    logger.error(`Middleware of ${operation} failed`, error);
+    const structuredError = handleError(error);
+    reportError(structuredError);
+    return { data: null, error: structuredError, loading: false } as R;
+  }
+}
+
+/**
+ * Runs listen through the middleware pipeline
+ * Listeners are set up synchronously. If middleware is asynchronous, the returned
+ * function unsubscribes as soon as the listener has been set up. A Result returned
+ * by middleware short-circuits the listener and its error is passed to onError.
+ *
+ * @param options - Options the listener was created with
+ * @param execute - listen itself
+ */
+export function runListener<O extends ListenOptions<any>>(
+  options: O,
+  execute: (options: O) => Unsubscribe
+): Unsubscribe {
+  if (middlewares.length === 0) {
+    return execute(options);
+  }
+
+  const reportListenerError = (error: unknown) => {
+    logger.error("Middleware of listen failed", error);
+    options.onError?.(handleError(error));
+  };
+
+  const toUnsubscribe = (output: MiddlewareOutput): Unsubscribe => {
+    if (typeof output === "function") {
+      return output;
+    }
+    if (output.error) {
+      options.onError?.(output.error);
+    }
+    return () => {};
+  };
+
+  try {
+    const output = dispatch(middlewares, "listen", options, execute);
+    if (!(output instanceof Promise)) {
+      return toUnsubscribe(output);
+    }
+
+    let unsubscribe: Unsubscribe | null = null;
+    let unsubscribed = false;
+
+    output.then((resolved) => {
+      unsubscribe = toUnsubscribe(resolved);
+      if (unsubscribed) {
+        unsubscribe();
+      }
+    }, reportListenerError);
+
+    return () => {
+      unsubscribed = true;
+      unsubscribe?.();
+    };
+  } catch (error) {
+    reportListenerError(error);
+    return () => {};
+  }
+}
@@ -0,0 +1,183 @@
+import {
+  getAggregateFromServer,
+  count,
+  sum,
+  average,
+  AggregateField,
+} from "firebase/firestore";
+import { getFirebaseInstance } from "../firebase";
+import { buildQuery } from "../query";
+import { AggregateData, AggregateOptions, Result } from "../../types";
+import { handleError, reportError, ValidationError } from "../../errors";
+import { createLogger } from "../../logging";
+import { CacheManager } from "../../cache/cacheManager";
+
+// Create a logger for this operation
+const logger = createLogger("aggregateData");
+
+// Get cache manager instance lazily
+let cacheInstance: CacheManager | null = null;
+const getCache = () => {
+  if (!cacheInstance) {
+    cacheInstance = CacheManager.getInstance();
+  }
+  return cacheInstance;
+};
+
+export interface AggregateDataOptions extends AggregateOptions {
+  /**
+   * Whether to use cache for this request
+   * If not specified, uses global cache configuration
+   */
+  useCache?: boolean;
+  /**
+   * Time to live for this specific cache entry in milliseconds
+   * If not specified, uses global cache configuration
+   */
+  cacheTTL?: number;
+}
+
+/**
+ * Runs an aggregation query (count, sum, average) over a collection
+ *
+ * Aggregations are computed by Firestore without downloading the documents.
+ * Results are cached under the collection path, so any write to the collection
+ * invalidates them.
+ *
+ * @param {AggregateDataOptions} options - Options for the aggregation
+ * @param {string} options.path - Path to the collection
+ * @param {Array<[string, WhereFilterOp, any]>} [options.where] - Optional array of filter conditions in format [field, operator, value]
+ * @param {boolean} [options.count] - Whether to count matching documents (default if nothing else is requested)
+ * @param {string[]} [options.sum] - Fields to sum
+ * @param {string[]} [options.average] - Fields to average
+ * @param {string} [options.instance] - Optional name of the instance to query
+ * @param {boolean} [options.useCache] - Whether to use cache for this request
+ * @param {number} [options.cacheTTL] - Time to live for this specific cache entry
+ *
+ * @returns {Promise<Result<AggregateData>>} Result object containing the aggregation results
+ *
+ * @example
+ * // Count active users
+ * const { data } = await aggregateData({
+ *   path: 'users',
+ *   where: [['status', '==', 'active']],
+ *   count: true
+ * });
+ * console.log(data?.count);
+ *
+ * @example
+ * // Total and average order value
+ * const { data } = await aggregateData({
+ *   path: 'orders',
+ *   sum: ['total'],
+ *   average: ['total']
+ * });
+ * console.log(data?.sum.total, data?.average.total);
+ */
+export async function aggregateData(
+  options: AggregateDataOptions
+): Promise<Result<AggregateData>> {
+  logger.debug("Called with options", options);
+
+  // Validate required parameters
+  if (!options.path) {
+    const error = new ValidationError(
+      "Path parameter is required for aggregateData"
+    );
+    reportError(error);
+    logger.error("Missing required parameter: path");
+    return { data: null, error, loading: false };
+  }
+
+  const {
+    path,
+    where: whereOptions,
+    sum: sumFields = [],
+    average: averageFields = [],
+    instance,
+    includeDeleted,
+    useCache = true,
+    cacheTTL,
+  } = options;
+
+  // Count by default if no other aggregation is requested
+  const countDocuments =
+    options.count ?? (sumFields.length === 0 && averageFields.length === 0);
+
+  // Create cache key if caching is enabled
+  const cacheKey = useCache
+    ? CacheManager.createKey(path, {
+        type: "aggregate",
+        where: whereOptions,
+        count: countDocuments,
+        sum: sumFields,
+        average: averageFields,
+        includeDeleted: includeDeleted || undefined,
+        instance,
+      })
+    : null;
+
+  // Try to get from cache first
+  if (cacheKey) {
+    const cachedData = getCache().get<AggregateData>(cacheKey);
+    if (cachedData) {
+      logger.debug("Returning cached data");
+      return { data: cachedData, error: null, loading: false };
+    }
+  }
+
+  try {
+    logger.info(`Aggregating collection at path: ${path}`);
+    const { firestore } = getFirebaseInstance(instance);
+
+    const queryRef = buildQuery(
+      firestore,
+      { path, where: whereOptions, includeDeleted },
+      logger
+    );
+
+    // Field names may contain dots, so aggregations use positional aliases
+    const spec: Record<string, AggregateField<number | null>> = {};
+    if (countDocuments) {
+      spec.count = count();
+    }
+    sumFields.forEach((field, index) => {
+      spec[`sum_${index}`] = sum(field);
+    });
+    averageFields.forEach((field, index) => {
+      spec[`average_${index}`] = average(field);
+    });
+
+    logger.debug("Executing aggregation query", Object.keys(spec));
+    const snapshot = await getAggregateFromServer(queryRef, spec);
+    const values = snapshot.data();
+
+    const data: AggregateData = { sum: {}, average: {} };
+    if (countDocuments) {
+      data.count = values.count as number;
+    }
+    sumFields.forEach((field, index) => {
+      data.sum[field] = values[`sum_${index}`] as number;
+    });
+    averageFields.forEach((field, index) => {
+      data.average[field] = values[`average_${index}`];
+    });
+
+    // Cache the result if caching is enabled
+    if (cacheKey) {
+      if (cacheTTL) {
+        getCache().configure({ ttl: cacheTTL });
+      }
+      getCache().set(cacheKey, data);
+    }
+
+    logger.info("Successfully aggregated collection");
+    return { data, error: null, loading: false };
+  } catch (error) {
+    // Convert to our structured error format
+    logger.error("Error aggregating data", error);
+    const structuredError = handleError(error);
+    reportError(structuredError);
+    return { data: null, error: structuredError, loading: false };
+  }
+}
@@ -0,0 +1,110 @@
+import { collection } from "firebase/firestore";
+import { getFirebaseInstance } from "../firebase";
+import { forEachQueryPage } from "../query";
+import {
+  commitWrites,
+  invalidateWrites,
+  MAX_BATCH_SIZE,
+  PreparedWrite,
+} from "../batchWriter";
+import { defaultSoftDeleteConfig, getSoftDeleteConfig } from "../softDelete";
+import { BackfillDeletedOptions, BackfillResult, Result } from "../../types";
+import { handleError, reportError, ValidationError } from "../../errors";
+import { createLogger } from "../../logging";
+import { CacheManager } from "../../cache/cacheManager";
+
+// Create a logger for this operation
+const logger = createLogger("backfillDeleted");
+
+// Get cache manager instance lazily
+let cacheInstance: CacheManager | null = null;
+const getCache = () => {
+  if (!cacheInstance) {
+    cacheInstance = CacheManager.getInstance();
+  }
+  return cacheInstance;
+};
+
+/**
+ * Adds the empty deletedAt field to documents of a collection that do not have it
+ * Reads filter soft-deleted documents with `deletedAt == null`, which Firestore
+ * only matches for documents that have the field - run this once for collections
+ * that contain documents written before soft delete was enabled.
+ *
+ * All documents are read in pages of MAX_BATCH_SIZE, and the ones without the
+ * field are updated in one batch per page. If a batch fails, the documents of
+ * earlier batches keep the field - run the backfill again to continue.
+ *
+ * @param {BackfillDeletedOptions} options - Options for the backfill
+ * @param {string} options.path - Path to the collection
+ * @param {string} [options.instance] - Optional name of the instance to write to
+ * @returns {Promise<Result<BackfillResult>>} Result object containing the number of read and updated documents
+ *
+ * @example
+ * configureSoftDelete(true, 'users');
+ *
+ * // Make users created before soft delete was enabled visible to list reads
+ * const { data } = await backfillDeleted({ path: 'users' });
+ * console.log(`Added deletedAt to ${data?.updated} of ${data?.scanned} users`);
+ */
+export async function backfillDeleted(
+  options: BackfillDeletedOptions
+): Promise<Result<BackfillResult>> {
+  logger.debug("Called with options", options);
+
+  // Validate required parameters
+  if (!options.path) {
+    const error = new ValidationError(
+      "Path parameter is required for backfillDeleted"
+    );
+    reportError(error);
+    logger.error("Missing required parameter: path");
+    return { data: null, error, loading: false };
+  }
+
+  const { path, instance } = options;
+  const { field } = getSoftDeleteConfig(path) ?? defaultSoftDeleteConfig;
+
+  try {
+    logger.info(`Adding ${field} to documents at path: ${path}`);
+    const { firestore } = getFirebaseInstance(instance);
+
+    const summary: BackfillResult = { scanned: 0, updated: 0 };
+
+    await forEachQueryPage(
+      collection(firestore, path),
+      async (docs) => {
+        summary.scanned += docs.length;
+
+        const writes: PreparedWrite[] = docs
+          .filter((document) => !(field in document.data()))
+          .map((document) => ({
+            type: "update",
+            ref: document.ref,
+            path,
+            data: { [field]: null },
+          }));
+
+        await commitWrites(firestore, writes, {
+          logger,
+          onCommitted: (chunk) => {
+            summary.updated += chunk.length;
+            invalidateWrites(getCache(), chunk, instance);
+          },
+        });
+      },
+      MAX_BATCH_SIZE
+    );
+
+    logger.info(
+      `Successfully added ${field} to ${summary.updated} of ${summary.scanned} documents`
+    );
+    return { data: summary, error: null, loading: false };
+  } catch (error) {
+    // Convert to our structured error format
+    logger.error("Error adding the deleted field", error);
+    const structuredError = handleError(error);
+    reportError(structuredError);
+    return { data: null, error: structuredError, loading: false };
+  }
+}
@@ -0,0 +1,319 @@
+import { doc, collection, DocumentData } from "firebase/firestore";
+import { getFirebaseInstance } from "../firebase";
+import { applyTimestamps } from "../timestamps";
+import {
+  applyDeletedField,
+  createDeletedData,
+  resolveSoftDelete,
+} from "../softDelete";
+import {
+  commitWrites,
+  invalidateWrites,
+  PreparedWrite,
+} from "../batchWriter";
+import {
+  BatchResult,
+  CreateOptions,
+  DeleteOptions,
+  InstanceOptions,
+  Result,
+  UpdateOptions,
+} from "../../types";
+import { validateWrite } from "../validation";
+import { joinPath } from "../../utils/formatters";
+import { toFirestoreData } from "../../utils/fieldTransforms";
+import { handleError, reportError, ValidationError } from "../../errors";
+import { createLogger } from "../../logging";
+import { CacheManager } from "../../cache/cacheManager";
+
+// Create a logger for this operation
+const logger = createLogger("batch");
+
+// Get cache manager instance lazily
+let cacheInstance: CacheManager | null = null;
+const getCache = () => {
+  if (!cacheInstance) {
+    cacheInstance = CacheManager.getInstance();
+  }
+  return cacheInstance;
+};
+
+/**
+ * Options of a queued operation - the instance is chosen for the whole batch,
+ * which is committed in a single attempt
+ */
+type BatchOperationOptions<O> = Omit<
+  O,
+  "instance" | "retry" | "timeoutMs"
+>;
+
+/**
+ * Options of a queued delete - recursive deletes cannot be part of a batch
+ */
+type BatchRemoveOptions = Omit<
+  BatchOperationOptions<DeleteOptions>,
+  "recursive" | "subcollections" | "onProgress"
+>;
+
+/**
+ * Operation queued in a write batch
+ */
+type QueuedOperation =
+  | { type: "create"; options: BatchOperationOptions<CreateOptions<DocumentData>> }
+  | { type: "update"; options: BatchOperationOptions<UpdateOptions<DocumentData>> }
+  | { type: "delete"; options: BatchRemoveOptions };
+
+/**
+ * Write batch that queues operations and commits them together
+ */
+export interface WriteBatchHelper {
+  /** Queues creation of a document (same options as create) */
+  create<T extends object>(
+    options: BatchOperationOptions<CreateOptions<T>>
+  ): WriteBatchHelper;
+  /** Queues an update of a document (same options as update) */
+  update<T extends object>(
+    options: BatchOperationOptions<UpdateOptions<T>>
+  ): WriteBatchHelper;
+  /** Queues deletion of a document (same options as removeDoc) */
+  remove(options: BatchRemoveOptions): WriteBatchHelper;
+  /** Number of queued operations */
+  readonly size: number;
+  /** Commits all queued operations */
+  commit(): Promise<Result<BatchResult>>;
+}
+
+/**
+ * Validates a queued operation and returns an error message if it is invalid
+ */
+function validateOperation(operation: QueuedOperation): string | null {
+  const { options } = operation;
+
+  if (!options.path) {
+    return `Path parameter is required for batch ${operation.type}`;
+  }
+  if (operation.type !== "create" && !options.docId) {
+    return `DocId parameter is required for batch ${operation.type}`;
+  }
+  if (operation.type !== "delete" && !operation.options.data) {
+    return `Data parameter is required for batch ${operation.type}`;
+  }
+
+  return null;
+}
+
+/**
+ * Returns the data a queued create or update writes, or null for a delete
+ * Creates get the timestamps and the deletedAt field, updates the updatedAt
+ * field - overwrites also keep the document visible in soft-delete collections
+ */
+function prepareData(operation: QueuedOperation): DocumentData | null {
+  const { path } = operation.options;
+
+  if (operation.type === "create") {
+    return applyDeletedField(
+      path,
+      applyTimestamps("create", path, operation.options.data)
+    );
+  }
+  if (operation.type === "update") {
+    const { data, merge = true } = operation.options;
+    const timestamped = applyTimestamps("update", path, data);
+    return merge ? timestamped : applyDeletedField(path, timestamped);
+  }
+
+  return null;
+}
+
+/**
+ * Creates a write batch that commits create, update and delete operations atomically
+ *
+ * Firestore limits a single batch to 500 operations. Larger batches are split
+ * automatically and committed one after another - each chunk is atomic on its own.
+ * Cache entries of the written documents are invalidated only after their chunk commits.
+ * If a later chunk fails, the Result holds the error together with the writes of
+ * the chunks that were committed before it.
+ * Queued creates and updates are checked by the registered validators before
+ * anything is written.
+ *
+ * @param {InstanceOptions} [options] - Batch options
+ * @param {string} [options.instance] - Optional name of the instance to write to
+ * @returns {WriteBatchHelper} Batch with chainable create, update and remove methods
+ *
+ * @example
+ * // Move a user to another team atomically
+ * const result = await batchData()
+ *   .update({ path: 'teams', docId: 'teamA', data: { memberCount: 4 } })
+ *   .update({ path: 'teams', docId: 'teamB', data: { memberCount: 6 } })
+ *   .create({ path: 'audit', data: { action: 'move', userId: 'user123' } })
+ *   .remove({ path: 'invites', docId: 'invite456' })
+ *   .commit();
+ *
+ * if (!result.error) {
+ *   console.log(`Committed ${result.data?.writeCount} writes`);
+ * }
+ */
+export function batchData(options: InstanceOptions = {}): WriteBatchHelper {
+  const { instance } = options;
+  const operations: QueuedOperation[] = [];
+
+  const helper: WriteBatchHelper = {
+    create(options) {
+      operations.push({ type: "create", options });
+      return helper;
+    },
+
+    update(options) {
+      operations.push({
+        type: "update",
+        options: options as BatchOperationOptions<UpdateOptions<DocumentData>>,
+      });
+      return helper;
+    },
+
+    remove(options) {
+      operations.push({ type: "delete", options });
+      return helper;
+    },
+
+    get size() {
+      return operations.length;
+    },
+
+    async commit() {
+      logger.debug(`Committing ${operations.length} queued operations`);
+
+      // Validate all operations before writing anything
+      for (const operation of operations) {
+        const message = validateOperation(operation);
+        if (message) {
+          const error = new ValidationError(message);
+          reportError(error);
+          logger.error(message);
+          return { data: null, error, loading: false };
+        }
+      }
+
+      // Writes of the chunks committed so far
+      const committed: PreparedWrite[] = [];
+      let committedBatches = 0;
+
+      try {
+        const prepared = operations.map(prepareData);
+
+        // Run the registered validators - merged updates are validated only
+        // for the fields they change
+        for (const [index, operation] of operations.entries()) {
+          const data = prepared[index];
+          if (operation.type === "delete" || !data) {
+            continue;
+          }
+
+          const { path, docId } = operation.options;
+          const merge =
+            operation.type === "update" && (operation.options.merge ?? true);
+          const validationError = await validateWrite(
+            operation.type,
+            path,
+            docId,
+            data,
+            merge
+          );
+          if (validationError) {
+            reportError(validationError);
+            logger.error(validationError.message);
+            return { data: null, error: validationError, loading: false };
+          }
+        }
+
+        const { firestore } = getFirebaseInstance(instance);
+
+        const writes: PreparedWrite[] = operations.map((operation, index) => {
+          const { path, docId } = operation.options;
+          const data = prepared[index];
+
+          if (operation.type === "create") {
+            const ref = docId
+              ? doc(firestore, joinPath(path, docId))
+              : doc(collection(firestore, path));
+            return {
+              type: "set",
+              ref,
+              path,
+              data: toFirestoreData(data as DocumentData),
+            };
+          }
+
+          const ref = doc(firestore, joinPath(path, docId as string));
+
+          if (operation.type === "update") {
+            const { merge = true } = operation.options;
+            return {
+              type: merge ? "update" : "set",
+              ref,
+              path,
+              data: toFirestoreData(data as DocumentData),
+            };
+          }
+
+          // Soft deletes mark the document as deleted
+          const softDelete = resolveSoftDelete(path, operation.options.soft);
+          if (softDelete) {
+            return {
+              type: "update",
+              ref,
+              path,
+              data: toFirestoreData(createDeletedData(softDelete)),
+            };
+          }
+
+          return { type: "delete", ref, path };
+        });
+
+        const batchCount = await commitWrites(firestore, writes, {
+          logger,
+          onCommitted: (chunk) => {
+            committed.push(...chunk);
+            committedBatches++;
+            invalidateWrites(getCache(), chunk, instance);
+          },
+        });
+        logger.debug("Invalidated cache for all written documents");
+
+        logger.info(
+          `Successfully committed ${writes.length} writes in ${batchCount} batches`
+        );
+        return {
+          data: {
+            writeCount: writes.length,
+            batchCount,
+            ids: writes.map((write) => write.ref.id),
+          },
+          error: null,
+          loading: false,
+        };
+      } catch (error) {
+        // Convert to our structured error format
+        logger.error(
+          `Error committing batch after ${committed.length} successful writes`,
+          error
+        );
+        const structuredError = handleError(error);
+        reportError(structuredError);
+
+        // Earlier chunks stay committed - report them alongside the error
+        const data =
+          committed.length > 0
+            ? {
+                writeCount: committed.length,
+                batchCount: committedBatches,
+                ids: committed.map((write) => write.ref.id),
+              }
+            : null;
+        return { data, error: structuredError, loading: false };
+      }
+    },
+  };
+
+  return helper;
+}
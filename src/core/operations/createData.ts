@@ -1,6 +1,17 @@
 import { doc, setDoc } from "firebase/firestore";
 import { getFirebaseInstance } from "../firebase";
+import { runOperation } from "../middleware";
+import { withRetry } from "../retry";
+import { withTimeout } from "../timeout";
+import { validateWrite } from "../validation";
+import { applyTimestamps } from "../timestamps";
+import { applyDeletedField } from "../softDelete";
 import { formatDocument, joinPath } from "../../utils/formatters";
+import {
+  toFirestoreData,
+  resolveFieldTransforms,
+  hasFieldTransforms,
+} from "../../utils/fieldTransforms";
 import { CreateOptions, Result } from "../../types";
 import { handleError, reportError, ValidationError } from "../../errors";
 import { createLogger } from "../../logging";
@@ -39,9 +50,27 @@ const getCache = () => {
  *   docId: 'user123',
  *   data: { name: 'John Doe', age: 30 }
  * });
+ *
+ * @example
+ * // Create a document with a server timestamp
+ * const result = await createData({
+ *   path: 'posts',
+ *   data: { title: 'Hello', createdAt: serverTimestamp() }
+ * });
  */
 export async function createData<T extends object>(
   options: CreateOptions<T>
+): Promise<Result<T>> {
+  return runOperation("create", options, (finalOptions) =>
+    executeCreateData<T>(finalOptions)
+  );
+}
+
+/**
+ * Creates the document once the middleware pipeline has run
+ */
+async function executeCreateData<T extends object>(
+  options: CreateOptions<T>
 ): Promise<Result<T>> {
   logger.debug("Called with options", options);
 
@@ -64,30 +93,62 @@ export async function createData<T extends object>(
     return { data: null, error, loading: false };
   }
 
-  const { path, docId, data, silent } = options;
+  const { path, docId, silent, instance, retry, timeoutMs } = options;
+
+  // Add the createdAt/updatedAt fields if timestamps are enabled, and the
+  // empty deletedAt field if soft delete is enabled
+  const data = applyDeletedField(
+    path,
+    applyTimestamps("create", path, options.data)
+  );
 
   try {
+    // Validate the data against registered validators
+    const validationError = await validateWrite(
+      "create",
+      path,
+      docId,
+      data,
+      false
+    );
+    if (validationError) {
+      reportError(validationError);
+      logger.error(validationError.message);
+      return { data: null, error: validationError, loading: false };
+    }
+
     logger.info(
       `Creating document at path: ${path}${docId ? `/${docId}` : ""}`
     );
-    const { firestore } = getFirebaseInstance();
+    const { firestore } = getFirebaseInstance(instance);
 
     // Create document reference (with or without ID)
     const docRef = docId
       ? doc(firestore, joinPath(path, docId))
       : doc(firestore, path);
 
-    // Add document to Firestore
-    await setDoc(docRef, data);
+    // Add document to Firestore - the reference is created once, so a retry
+    // writes the same document; only increments cannot be safely repeated
+    const firestoreData = toFirestoreData(data);
+    const write = () => setDoc(docRef, firestoreData);
+    await withRetry(
+      "createData",
+      () => withTimeout("createData", write, timeoutMs),
+      {
+        retry,
+        idempotent: !hasFieldTransforms(data, ["increment"]),
+        logger,
+      }
+    );
 
     // Format response data
     const createdData = {
-      ...data,
+      ...resolveFieldTransforms(data),
       id: docRef.id,
     } as T;
 
     // Invalidate collection cache
-    getCache().invalidateCollection(path);
+    getCache().invalidateCollection(path, instance);
     logger.debug("Invalidated collection cache");
 
     logger.info("Successfully created document");
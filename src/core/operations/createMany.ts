@@ -0,0 +1,241 @@
+import { doc, collection } from "firebase/firestore";
+import { getFirebaseInstance } from "../firebase";
+import { withRetry } from "../retry";
+import { withTimeout } from "../timeout";
+import { validateWrite } from "../validation";
+import { applyTimestamps } from "../timestamps";
+import { applyDeletedField } from "../softDelete";
+import {
+  chunk,
+  commitWrites,
+  MAX_BATCH_SIZE,
+  PreparedWrite,
+} from "../batchWriter";
+import { joinPath } from "../../utils/formatters";
+import {
+  toFirestoreData,
+  hasFieldTransforms,
+} from "../../utils/fieldTransforms";
+import {
+  CreateManyItemResult,
+  CreateManyOptions,
+  CreateManyResult,
+  Result,
+} from "../../types";
+import {
+  FirestoreHelperError,
+  handleError,
+  reportError,
+  ValidationError,
+} from "../../errors";
+import { createLogger } from "../../logging";
+import { CacheManager } from "../../cache/cacheManager";
+
+// Create a logger for this operation
+const logger = createLogger("createMany");
+
+// Get cache manager instance lazily
+let cacheInstance: CacheManager | null = null;
+const getCache = () => {
+  if (!cacheInstance) {
+    cacheInstance = CacheManager.getInstance();
+  }
+  return cacheInstance;
+};
+
+/**
+ * Item prepared for a batch, with the index of its result
+ */
+interface PreparedItem {
+  index: number;
+  write: PreparedWrite;
+  idempotent: boolean;
+}
+
+/**
+ * Creates many documents in batches
+ * Items are validated and prepared one by one, then committed in batches of
+ * chunkSize with at most `concurrency` batches in flight. Each batch is atomic,
+ * so a failing batch fails all of its items while other batches are still
+ * committed. The collection cache is invalidated once at the end.
+ *
+ * @template T - Type of the data to create
+ * @param {CreateManyOptions<T>} options - Options for creating the documents
+ * @param {string} options.path - Path to the collection
+ * @param {T[]} options.items - Data of the documents to create
+ * @param {string} [options.idField] - Optional field holding the document ID of each item
+ * @param {number} [options.chunkSize=500] - Number of documents committed in one batch
+ * @param {number} [options.concurrency=4] - Maximum number of batches committed at the same time
+ * @param {string} [options.instance] - Optional name of the instance to write to
+ * @param {RetryOptions} [options.retry] - Optional retry policy of each batch, or false to disable retries
+ * @param {number} [options.timeoutMs] - Optional time limit of each batch attempt in milliseconds
+ * @returns {Promise<Result<CreateManyResult>>} Result object containing the outcome of each item, and the first error if any item failed
+ *
+ * @example
+ * // Import products using their SKU as the document ID
+ * const { data, error } = await createMany({
+ *   path: 'products',
+ *   items: products,
+ *   idField: 'sku'
+ * });
+ *
+ * console.log(`Created ${data?.created}, failed ${data?.failed}`);
+ * data?.items
+ *   .filter((item) => item.error)
+ *   .forEach((item) => console.log(products[item.index], item.error));
+ */
+export async function createMany<T extends object>(
+  options: CreateManyOptions<T>
+): Promise<Result<CreateManyResult>> {
+  logger.debug("Called with options", { ...options, items: undefined });
+
+  // Validate required parameters
+  if (!options.path) {
+    const error = new ValidationError(
+      "Path parameter is required for createMany"
+    );
+    reportError(error);
+    logger.error("Missing required parameter: path");
+    return { data: null, error, loading: false };
+  }
+
+  if (!Array.isArray(options.items)) {
+    const error = new ValidationError(
+      "Items parameter is required for createMany"
+    );
+    reportError(error);
+    logger.error("Missing required parameter: items");
+    return { data: null, error, loading: false };
+  }
+
+  const {
+    path,
+    items,
+    idField,
+    chunkSize = MAX_BATCH_SIZE,
+    concurrency = 4,
+    instance,
+    retry,
+    timeoutMs,
+  } = options;
+
+  try {
+    logger.info(`Creating ${items.length} documents at path: ${path}`);
+    const { firestore } = getFirebaseInstance(instance);
+
+    const results: CreateManyItemResult[] = [];
+    const prepared: PreparedItem[] = [];
+
+    // Validate and prepare each item
+    for (let index = 0; index < items.length; index++) {
+      const item = items[index];
+      const docId = idField ? item[idField] : undefined;
+
+      if (idField && (typeof docId !== "string" || docId === "")) {
+        results.push({
+          index,
+          id: null,
+          error: new ValidationError(
+            `Item ${index} has no document ID in field "${idField}"`
+          ),
+        });
+        continue;
+      }
+
+      const data = applyDeletedField(
+        path,
+        applyTimestamps("create", path, item)
+      );
+      const validationError = await validateWrite(
+        "create",
+        path,
+        docId as string | undefined,
+        data,
+        false
+      );
+
+      const ref = docId
+        ? doc(firestore, joinPath(path, docId as string))
+        : doc(collection(firestore, path));
+      results.push({ index, id: ref.id, error: validationError });
+
+      if (!validationError) {
+        prepared.push({
+          index,
+          write: { type: "set", ref, path, data: toFirestoreData(data) },
+          idempotent: !hasFieldTransforms(data, ["increment"]),
+        });
+      }
+    }
+
+    // Commit the batches with limited concurrency
+    const batches = chunk(
+      prepared,
+      Math.max(1, Math.min(chunkSize, MAX_BATCH_SIZE))
+    );
+    let nextBatch = 0;
+
+    const commitNext = async (): Promise<void> => {
+      while (nextBatch < batches.length) {
+        const batchItems = batches[nextBatch++];
+        const writes = batchItems.map((item) => item.write);
+        try {
+          await withRetry(
+            "createMany",
+            () =>
+              withTimeout(
+                "createMany",
+                () => commitWrites(firestore, writes, { logger }),
+                timeoutMs
+              ),
+            {
+              retry,
+              idempotent: batchItems.every((item) => item.idempotent),
+              logger,
+            }
+          );
+        } catch (error) {
+          logger.error(`Batch with ${writes.length} documents failed`, error);
+          const structuredError = handleError(error);
+          batchItems.forEach((item) => {
+            results[item.index].error = structuredError;
+          });
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from(
+        { length: Math.max(1, Math.min(concurrency, batches.length)) },
+        commitNext
+      )
+    );
+
+    // Invalidate collection cache once for all documents
+    getCache().invalidateCollection(path, instance);
+    logger.debug("Invalidated collection cache");
+
+    const failedItems = results.filter((item) => item.error);
+    const data: CreateManyResult = {
+      created: results.length - failedItems.length,
+      failed: failedItems.length,
+      items: results,
+    };
+
+    if (failedItems.length > 0) {
+      const firstError = failedItems[0].error as FirestoreHelperError;
+      reportError(firstError);
+      logger.warn(`Failed to create ${failedItems.length} documents`);
+      return { data, error: firstError, loading: false };
+    }
+
+    logger.info(`Successfully created ${data.created} documents`);
+    return { data, error: null, loading: false };
+  } catch (error) {
+    // Convert to our structured error format
+    logger.error("Error creating documents", error);
+    const structuredError = handleError(error);
+    reportError(structuredError);
+    return { data: null, error: structuredError, loading: false };
+  }
+}
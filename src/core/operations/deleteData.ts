@@ -1,9 +1,15 @@
-import { doc, deleteDoc } from "firebase/firestore";
+import { doc, deleteDoc, updateDoc } from "firebase/firestore";
 import { getFirebaseInstance } from "../firebase";
+import { runOperation } from "../middleware";
+import { withRetry } from "../retry";
+import { withTimeout } from "../timeout";
+import { createDeletedData, resolveSoftDelete } from "../softDelete";
+import { deleteTree } from "../recursiveDelete";
 import { DeleteOptions, Result } from "../../types";
 import { getData } from "./getData";
 import { listenData } from "./listenData";
 import { joinPath } from "../../utils/formatters";
+import { toFirestoreData } from "../../utils/fieldTransforms";
 import { handleError, reportError, ValidationError } from "../../errors";
 import { createLogger } from "../../logging";
 import { CacheManager } from "../../cache/cacheManager";
@@ -20,6 +26,16 @@ const getCache = () => {
   return cacheInstance;
 };
 
+/**
+ * Options of deleteData
+ */
+type DeleteDataOptions<T> = DeleteOptions & {
+  useListener?: boolean;
+  onNext?: (data: T) => void;
+  onError?: (error: Error) => void;
+  silent?: boolean;
+};
+
 /**
  * Deletes a document from Firestore
  *
@@ -29,6 +45,13 @@ const getCache = () => {
  * @param {string} options.docId - ID of the document to delete
  * @param {boolean} [options.silent=false] - If true, the function will not return any data, only errors (good for use with real-time listeners)
  * @param {boolean} [options.useListener=false] - Whether to return a listener for the parent collection
+ * @param {boolean} [options.soft] - Whether to mark the document as deleted instead of deleting it (defaults to the soft delete configuration)
+ * @param {boolean} [options.recursive=false] - Whether to delete the subcollections of the document as well
+ * @param {string[]} [options.subcollections] - Subcollections to delete recursively (the registered ones if not specified)
+ * @param {Function} [options.onProgress] - Called after each chunk of a recursive delete
+ * @param {string} [options.instance] - Optional name of the instance to delete from
+ * @param {RetryOptions} [options.retry] - Optional retry policy for this call, or false to disable retries
+ * @param {number} [options.timeoutMs] - Optional time limit of each attempt in milliseconds
  *
  * @returns {Promise<Result<T> | (() => void) | Result<null>>} Result object containing the parent collection after deletion, an unsubscribe function if useListener is true, or just Result with error if silent is true
  *
@@ -70,14 +93,34 @@ const getCache = () => {
  *
  * // Later, when you no longer need updates:
  * unsubscribe();
+ *
+ * @example
+ * // Mark the document as deleted, even if soft delete is not configured
+ * await deleteData({ path: 'users', docId: 'user123', soft: true });
+ *
+ * @example
+ * // Delete a user together with the sessions subcollection
+ * await deleteData({
+ *   path: 'users',
+ *   docId: 'user123',
+ *   recursive: true,
+ *   subcollections: ['sessions'],
+ *   onProgress: ({ deleted }) => console.log(`Deleted ${deleted} documents`)
+ * });
  */
 export async function deleteData<T extends { id: string }>(
-  options: DeleteOptions & {
-    useListener?: boolean;
-    onNext?: (data: T) => void;
-    onError?: (error: Error) => void;
-    silent?: boolean;
-  }
+  options: DeleteDataOptions<T>
+): Promise<Result<T> | (() => void) | Result<null>> {
+  return runOperation("removeDoc", options, (finalOptions) =>
+    executeDeleteData<T>(finalOptions)
+  );
+}
+
+/**
+ * Deletes the document once the middleware pipeline has run
+ */
+async function executeDeleteData<T extends { id: string }>(
+  options: DeleteDataOptions<T>
 ): Promise<Result<T> | (() => void) | Result<null>> {
   logger.debug("Called with options", options);
 
@@ -100,6 +143,15 @@ export async function deleteData<T extends { id: string }>(
     return { data: null, error, loading: false };
   }
 
+  if (options.recursive && options.soft) {
+    const error = new ValidationError(
+      "Recursive deletes cannot be soft deletes"
+    );
+    reportError(error);
+    logger.error("Invalid parameters: recursive with soft");
+    return { data: null, error, loading: false };
+  }
+
   const {
     path,
     docId,
@@ -107,21 +159,60 @@ export async function deleteData<T extends { id: string }>(
     silent = false,
     onNext,
     onError,
+    soft,
+    recursive = false,
+    subcollections,
+    onProgress,
+    instance,
+    retry,
+    timeoutMs,
   } = options;
 
+  // Recursive deletes are always permanent
+  const softDelete = recursive ? null : resolveSoftDelete(path, soft);
+
+  // Runs a Firestore call with retries and time limits
+  const run = <R>(fn: () => Promise<R>) =>
+    withRetry("deleteData", () => withTimeout("deleteData", fn, timeoutMs), {
+      retry,
+      logger,
+    });
+
   try {
-    logger.info(`Deleting document at path: ${path}/${docId}`);
-    const { firestore } = getFirebaseInstance();
+    logger.info(
+      `${softDelete ? "Soft deleting" : "Deleting"} document at path: ${path}/${docId}`
+    );
+    const { firestore } = getFirebaseInstance(instance);
 
-    // Get document reference
-    const docRef = doc(firestore, joinPath(path, docId));
+    if (recursive) {
+      const documentPath = joinPath(path, docId);
+      try {
+        const deleted = await deleteTree(firestore, documentPath, {
+          subcollections,
+          onProgress,
+          run,
+          logger,
+        });
+        logger.info(`Deleted ${deleted} documents recursively`);
+      } finally {
+        // Invalidate the whole subtree, even if only a part of it was deleted
+        getCache().invalidateByPath(documentPath, instance);
+      }
+    } else {
+      // Get document reference
+      const docRef = doc(firestore, joinPath(path, docId));
 
-    // Delete the document
-    await deleteDoc(docRef);
+      // Delete the document, or mark it as deleted
+      await run(() =>
+        softDelete
+          ? updateDoc(docRef, toFirestoreData(createDeletedData(softDelete)))
+          : deleteDoc(docRef)
+      );
+    }
 
     // Invalidate both document and collection cache
-    getCache().remove(CacheManager.createKey(path, { docId }));
-    getCache().invalidateCollection(path);
+    getCache().remove(CacheManager.createKey(path, { docId, instance }));
+    getCache().invalidateCollection(path, instance);
     logger.debug("Invalidated document and collection cache");
 
     logger.info("Successfully deleted document");
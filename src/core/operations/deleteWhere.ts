@@ -0,0 +1,142 @@
+import { getFirebaseInstance } from "../firebase";
+import { buildQuery, forEachQueryPage } from "../query";
+import {
+  commitWritesSettled,
+  invalidateWrites,
+  MAX_BATCH_SIZE,
+  PreparedWrite,
+} from "../batchWriter";
+import { createDeletedData, resolveSoftDelete } from "../softDelete";
+import { toFirestoreData } from "../../utils/fieldTransforms";
+import { DeleteWhereOptions, WhereWriteResult, Result } from "../../types";
+import { handleError, reportError, ValidationError } from "../../errors";
+import { createLogger } from "../../logging";
+import { CacheManager } from "../../cache/cacheManager";
+
+// Create a logger for this operation
+const logger = createLogger("deleteWhere");
+
+// Get cache manager instance lazily
+let cacheInstance: CacheManager | null = null;
+const getCache = () => {
+  if (!cacheInstance) {
+    cacheInstance = CacheManager.getInstance();
+  }
+  return cacheInstance;
+};
+
+/**
+ * Deletes all documents matching a query
+ * Matching documents are read in pages of MAX_BATCH_SIZE and each page is committed
+ * as one batch. A failing batch does not stop the delete - its documents are counted
+ * as failed and the error of the first failing batch is returned along with the counts.
+ * Subcollections of the documents are not deleted.
+ *
+ * @param {DeleteWhereOptions} options - Options for the delete
+ * @param {string} options.path - Path to the collection
+ * @param {Array<[string, WhereFilterOp, any]>} [options.where] - Filter conditions of the documents to delete
+ * @param {boolean} [options.dryRun=false] - Only return the IDs of the matching documents
+ * @param {boolean} [options.soft] - Whether to mark the documents as deleted instead of deleting them (defaults to the soft delete configuration)
+ * @param {boolean} [options.includeDeleted=false] - Whether to delete soft-deleted documents too
+ * @param {string} [options.instance] - Optional name of the instance to delete from
+ * @returns {Promise<Result<WhereWriteResult>>} Result object containing the numbers of matched, deleted and failed documents
+ *
+ * @example
+ * // Delete all expired sessions
+ * const { data } = await deleteWhere({
+ *   path: 'sessions',
+ *   where: [['expiresAt', '<', new Date()]]
+ * });
+ * console.log(`Deleted ${data?.changed} sessions`);
+ */
+export async function deleteWhere(
+  options: DeleteWhereOptions
+): Promise<Result<WhereWriteResult>> {
+  logger.debug("Called with options", options);
+
+  // Validate required parameters
+  if (!options.path) {
+    const error = new ValidationError(
+      "Path parameter is required for deleteWhere"
+    );
+    reportError(error);
+    logger.error("Missing required parameter: path");
+    return { data: null, error, loading: false };
+  }
+
+  const { path, dryRun = false, soft, instance } = options;
+  const softDelete = resolveSoftDelete(path, soft);
+
+  try {
+    logger.info(
+      `${dryRun ? "Finding" : "Deleting"} documents matching query at path: ${path}`
+    );
+    const { firestore } = getFirebaseInstance(instance);
+    const queryRef = buildQuery(
+      firestore,
+      { path, where: options.where, includeDeleted: options.includeDeleted },
+      logger
+    );
+
+    const summary: WhereWriteResult = { matched: 0, changed: 0, failed: 0 };
+    const ids: string[] = [];
+    let firstError: unknown = null;
+
+    await forEachQueryPage(
+      queryRef,
+      async (docs) => {
+        summary.matched += docs.length;
+        if (dryRun) {
+          ids.push(...docs.map((document) => document.id));
+          return;
+        }
+
+        const writes: PreparedWrite[] = docs.map((document) =>
+          softDelete
+            ? {
+                type: "update",
+                ref: document.ref,
+                path,
+                data: toFirestoreData(createDeletedData(softDelete)),
+              }
+            : { type: "delete", ref: document.ref, path }
+        );
+
+        const { committed, failed, error } = await commitWritesSettled(
+          firestore,
+          writes,
+          {
+            logger,
+            onCommitted: (chunk) =>
+              invalidateWrites(getCache(), chunk, instance),
+          }
+        );
+        summary.changed += committed;
+        summary.failed += failed;
+        firstError = firstError ?? error;
+      },
+      MAX_BATCH_SIZE
+    );
+
+    if (dryRun) {
+      logger.info(`Found ${summary.matched} matching documents`);
+      return { data: { ...summary, ids }, error: null, loading: false };
+    }
+
+    if (firstError) {
+      const structuredError = handleError(firstError);
+      reportError(structuredError);
+      logger.warn(`Failed to delete ${summary.failed} documents`);
+      return { data: summary, error: structuredError, loading: false };
+    }
+
+    logger.info(`Successfully deleted ${summary.changed} documents`);
+    return { data: summary, error: null, loading: false };
+  } catch (error) {
+    // Convert to our structured error format
+    logger.error("Error deleting documents", error);
+    const structuredError = handleError(error);
+    reportError(structuredError);
+    return { data: null, error: structuredError, loading: false };
+  }
+}
@@ -1,32 +1,41 @@
 import {
-  collection,
   doc,
   getDoc,
   getDocs,
-  query,
-  where,
-  orderBy,
-  limit,
-  CollectionReference,
-  Query,
+  QueryDocumentSnapshot,
+  DocumentData,
 } from "firebase/firestore";
 import { getFirebaseInstance } from "../firebase";
+import { runOperation } from "../middleware";
+import { withRetry } from "../retry";
+import { withTimeout } from "../timeout";
+import {
+  buildQuery,
+  isBackwardQuery,
+  validateCollectionGroup,
+} from "../query";
+import { isSoftDeleted } from "../softDelete";
 import {
   formatDocument,
   formatCollection,
+  formatMetadata,
   joinPath,
 } from "../../utils/formatters";
+import { cursorFromDocument } from "../../utils/cursors";
 import {
   GetOptions,
+  PaginatedData,
   Result,
-  WhereFilterOp,
-  OrderByDirection,
+  RetryableOptions,
+  SnapshotMetadata,
+  TimeoutOptions,
 } from "../../types";
 import {
   handleError,
   reportError,
   ValidationError,
   NotFoundError,
+  TimeoutError,
 } from "../../errors";
 import { createLogger } from "../../logging";
 import { CacheManager } from "../../cache/cacheManager";
@@ -43,7 +52,10 @@ const getCache = () => {
   return cacheInstance;
 };
 
-export interface GetDataOptions extends GetOptions {
+export interface GetDataOptions
+  extends GetOptions,
+    RetryableOptions,
+    TimeoutOptions {
   /**
    * Whether to use cache for this request
    * If not specified, uses global cache configuration
@@ -54,6 +66,78 @@ export interface GetDataOptions extends GetOptions {
    * If not specified, uses global cache configuration
    */
   cacheTTL?: number;
+  /**
+   * Paginated mode - returns a PaginatedData object with the page items
+   * and opaque cursors of the next and previous pages
+   */
+  paginate?: boolean;
+  /**
+   * Whether a timed-out read returns the cached data even if it has expired
+   * The result is marked with stale: true. Requires caching to be enabled.
+   */
+  fallbackToCache?: boolean;
+}
+
+// Metadata of data served from the cache of this library
+const CACHED_METADATA: SnapshotMetadata = {
+  fromCache: true,
+  hasPendingWrites: false,
+};
+
+/**
+ * Returns the metadata to add to a result, if it was requested
+ */
+function resultMetadata(
+  includeMetadata: boolean | undefined,
+  metadata: SnapshotMetadata
+): Pick<Result, "metadata"> {
+  return includeMetadata ? { metadata: formatMetadata(metadata) } : {};
+}
+
+/**
+ * Builds a page of results from the documents of a paginated query
+ * The query fetches one document more than the limit to detect another page
+ */
+function buildPage<T>(
+  docs: QueryDocumentSnapshot<DocumentData>[],
+  options: GetDataOptions
+): PaginatedData<T> {
+  const {
+    limit: limitCount,
+    orderBy: orderByOptions,
+    collectionGroup = false,
+    convert,
+  } = options;
+  const backward = isBackwardQuery(options);
+  const hasMore = !!limitCount && docs.length > limitCount;
+
+  // Drop the extra document from the far end of the page
+  let pageDocs = docs;
+  if (hasMore) {
+    pageDocs = backward ? docs.slice(1) : docs.slice(0, limitCount);
+  }
+
+  const orderByFields = (orderByOptions ?? []).map(([field]) => field);
+  const first = pageDocs[0];
+  const last = pageDocs[pageDocs.length - 1];
+  const hasStartCursor =
+    options.startAfter !== undefined || options.startAt !== undefined;
+
+  return {
+    items: pageDocs
+      .map((doc) =>
+        formatDocument<T>(doc, { includePath: collectionGroup, convert })
+      )
+      .filter(Boolean) as T[],
+    nextCursor:
+      last && (backward || hasMore)
+        ? cursorFromDocument(last, orderByFields, collectionGroup)
+        : null,
+    prevCursor:
+      first && (backward ? hasMore : hasStartCursor)
+        ? cursorFromDocument(first, orderByFields, collectionGroup)
+        : null,
+  };
 }
 
 /**
@@ -66,6 +150,18 @@ export interface GetDataOptions extends GetOptions {
  * @param {Array<[string, WhereFilterOp, any]>} [options.where] - Optional array of filter conditions in format [field, operator, value]
  * @param {Array<[string, OrderByDirection?]>} [options.orderBy] - Optional array of sort conditions in format [field, direction]
  * @param {number} [options.limit] - Optional maximum number of documents to return
+ * @param {QueryCursor} [options.startAfter] - Optional cursor to start the results after
+ * @param {QueryCursor} [options.startAt] - Optional cursor to start the results at
+ * @param {QueryCursor} [options.endBefore] - Optional cursor to end the results before
+ * @param {QueryCursor} [options.endAt] - Optional cursor to end the results at
+ * @param {boolean} [options.paginate] - Whether to return a page with next/previous cursors
+ * @param {boolean} [options.collectionGroup] - Whether to query all collections with the ID given in path
+ * @param {ConversionOptions} [options.convert] - Optional conversion of Timestamps, GeoPoints and references
+ * @param {boolean} [options.includeMetadata] - Whether to return the snapshot metadata (cached results are reported as fromCache)
+ * @param {string} [options.instance] - Optional name of the instance to query
+ * @param {RetryOptions} [options.retry] - Optional retry policy for this call, or false to disable retries
+ * @param {number} [options.timeoutMs] - Optional time limit of each attempt in milliseconds
+ * @param {boolean} [options.fallbackToCache] - Whether a timed-out read returns expired cached data
  * @param {boolean} [options.useCache] - Whether to use cache for this request
  * @param {number} [options.cacheTTL] - Time to live for this specific cache entry
  *
@@ -88,9 +184,45 @@ export interface GetDataOptions extends GetOptions {
  *   orderBy: [['createdAt', 'desc']],
  *   limit: 10
  * });
+ *
+ * @example
+ * // Page through a collection
+ * const firstPage = await getData<PaginatedData<User>>({
+ *   path: 'users',
+ *   orderBy: [['createdAt', 'desc']],
+ *   limit: 20,
+ *   paginate: true
+ * });
+ *
+ * const secondPage = await getData<PaginatedData<User>>({
+ *   path: 'users',
+ *   orderBy: [['createdAt', 'desc']],
+ *   limit: 20,
+ *   paginate: true,
+ *   startAfter: firstPage.data?.nextCursor ?? undefined
+ * });
+ *
+ * @example
+ * // Get comments across all posts - each comment includes its full _path
+ * const comments = await getData({
+ *   path: 'comments',
+ *   collectionGroup: true,
+ *   where: [['authorId', '==', 'user123']]
+ * });
  */
 export async function getData<T = any>(
   options: GetDataOptions
+): Promise<Result<T>> {
+  return runOperation("get", options, (finalOptions) =>
+    executeGetData<T>(finalOptions)
+  );
+}
+
+/**
+ * Retrieves data once the middleware pipeline has run
+ */
+async function executeGetData<T = any>(
+  options: GetDataOptions
 ): Promise<Result<T>> {
   logger.debug("Called with options", options);
 
@@ -102,12 +234,33 @@ export async function getData<T = any>(
     return { data: null, error, loading: false };
   }
 
+  const collectionGroupError = validateCollectionGroup(options);
+  if (collectionGroupError) {
+    const error = new ValidationError(collectionGroupError);
+    reportError(error);
+    logger.error(collectionGroupError);
+    return { data: null, error, loading: false };
+  }
+
   const {
     path,
     docId,
     where: whereOptions,
     orderBy: orderByOptions,
     limit: limitCount,
+    startAfter,
+    startAt,
+    endBefore,
+    endAt,
+    paginate = false,
+    collectionGroup = false,
+    convert,
+    includeDeleted,
+    includeMetadata,
+    instance,
+    retry,
+    timeoutMs,
+    fallbackToCache = false,
     useCache = true,
     cacheTTL,
   } = options;
@@ -119,29 +272,54 @@ export async function getData<T = any>(
         where: whereOptions,
         orderBy: orderByOptions,
         limit: limitCount,
+        startAfter,
+        startAt,
+        endBefore,
+        endAt,
+        paginate: paginate || undefined,
+        collectionGroup: collectionGroup || undefined,
+        convert,
+        includeDeleted: includeDeleted || undefined,
+        instance,
       })
     : null;
 
+  // Keep a possibly expired entry as a fallback for timed-out reads
+  const staleData =
+    cacheKey && fallbackToCache ? getCache().getStale<T>(cacheKey) : null;
+
   // Try to get from cache first
   if (cacheKey) {
     const cachedData = getCache().get<T>(cacheKey);
     if (cachedData) {
       logger.debug("Returning cached data");
-      return { data: cachedData, error: null, loading: false };
+      return {
+        data: cachedData,
+        error: null,
+        loading: false,
+        ...resultMetadata(includeMetadata, CACHED_METADATA),
+      };
     }
   }
 
   try {
     logger.info(`Fetching data from path: ${path}${docId ? `/${docId}` : ""}`);
-    const { firestore } = getFirebaseInstance();
+    const { firestore } = getFirebaseInstance(instance);
 
     // If document ID is provided, get a single document
     if (docId) {
       logger.debug(`Fetching single document with ID: ${docId}`);
       const docRef = doc(firestore, joinPath(path, docId));
-      const snapshot = await getDoc(docRef);
+      const snapshot = await withRetry(
+        "getData",
+        () => withTimeout("getData", () => getDoc(docRef), timeoutMs),
+        { retry, logger }
+      );
 
-      if (!snapshot.exists()) {
+      if (
+        !snapshot.exists() ||
+        (!includeDeleted && isSoftDeleted(path, snapshot.data()))
+      ) {
         const error = new NotFoundError(
           `Document not found at path: ${path}/${docId}`
         );
@@ -151,7 +329,7 @@ export async function getData<T = any>(
       }
 
       logger.debug("Document found, formatting response");
-      const data = formatDocument<T>(snapshot);
+      const data = formatDocument<T>(snapshot, { convert });
 
       // Cache the result if caching is enabled
       if (cacheKey) {
@@ -162,7 +340,12 @@ export async function getData<T = any>(
       }
 
       logger.info("Successfully retrieved document");
-      return { data, error: null, loading: false };
+      return {
+        data,
+        error: null,
+        loading: false,
+        ...resultMetadata(includeMetadata, snapshot.metadata),
+      };
     }
 
     // Otherwise get a collection and apply filters
@@ -172,38 +355,23 @@ export async function getData<T = any>(
       limitCount,
     });
 
-    let collectionRef: CollectionReference = collection(firestore, path);
-    let queryRef: Query = collectionRef;
-
-    // Apply where conditions
-    if (whereOptions && whereOptions.length > 0) {
-      logger.debug("Applying where filters", whereOptions);
-      whereOptions.forEach(([field, op, value]) => {
-        queryRef = query(queryRef, where(field, op as WhereFilterOp, value));
-      });
-    }
-
-    // Apply sorting
-    if (orderByOptions && orderByOptions.length > 0) {
-      logger.debug("Applying orderBy", orderByOptions);
-      orderByOptions.forEach(([field, direction]) => {
-        queryRef = query(
-          queryRef,
-          orderBy(field, direction as OrderByDirection)
-        );
-      });
-    }
-
-    // Apply limit
-    if (limitCount) {
-      logger.debug(`Applying limit: ${limitCount}`);
-      queryRef = query(queryRef, limit(limitCount));
-    }
+    const queryRef = buildQuery(firestore, options, logger);
 
     logger.debug("Executing collection query");
-    const snapshot = await getDocs(queryRef);
+    const snapshot = await withRetry(
+      "getData",
+      () => withTimeout("getData", () => getDocs(queryRef), timeoutMs),
+      { retry, logger }
+    );
     logger.debug(`Query returned ${snapshot.size} documents`);
-    const data = formatCollection<T>(snapshot) as unknown as T;
+    const data = (
+      paginate
+        ? buildPage<T>(snapshot.docs, options)
+        : formatCollection<T>(snapshot, {
+            includePath: collectionGroup,
+            convert,
+          })
+    ) as unknown as T;
 
     // Cache the result if caching is enabled
     if (cacheKey) {
@@ -216,11 +384,28 @@ export async function getData<T = any>(
     logger.info(
       `Successfully retrieved collection with ${snapshot.size} documents`
     );
-    return { data, error: null, loading: false };
+    return {
+      data,
+      error: null,
+      loading: false,
+      ...resultMetadata(includeMetadata, snapshot.metadata),
+    };
   } catch (error) {
     // Convert to our structured error format
-    logger.error("Error fetching data", error);
     const structuredError = handleError(error);
+
+    if (structuredError instanceof TimeoutError && staleData !== null) {
+      logger.warn("Read timed out, returning expired data from cache");
+      return {
+        data: staleData,
+        error: null,
+        loading: false,
+        stale: true,
+        ...resultMetadata(includeMetadata, CACHED_METADATA),
+      };
+    }
+
+    logger.error("Error fetching data", error);
     reportError(structuredError);
     return { data: null, error: structuredError, loading: false };
   }
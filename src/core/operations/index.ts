@@ -3,3 +3,11 @@ export { createData } from "./createData";
 export { updateData } from "./updateData";
 export { deleteData } from "./deleteData";
 export { listenData } from "./listenData";
+export { batchData } from "./batch";
+export { transactionData } from "./transaction";
+export { aggregateData } from "./aggregateData";
+export { restoreData } from "./restoreData";
+export { purgeDeleted } from "./purgeDeleted";
+export { updateWhere } from "./updateWhere";
+export { deleteWhere } from "./deleteWhere";
+export { createMany } from "./createMany";
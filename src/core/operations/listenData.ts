@@ -1,24 +1,34 @@
 import {
-  collection,
   doc,
   onSnapshot,
-  query,
-  where,
-  orderBy,
-  limit,
-  CollectionReference,
-  Query,
-  DocumentReference,
+  DocumentSnapshot,
+  QuerySnapshot,
   Unsubscribe,
-  Firestore,
 } from "firebase/firestore";
-import { getFirebaseInstance } from "../firebase";
+import { getFirebaseInstance, DEFAULT_INSTANCE } from "../firebase";
+import { subscribeListener } from "../listenerRegistry";
+import {
+  createDeliveryScheduler,
+  diffDocuments,
+  DeliveredDocument,
+  DeliveryScheduler,
+} from "../delivery";
+import { runListener } from "../middleware";
+import { buildQuery, validateCollectionGroup } from "../query";
+import { isSoftDeleted } from "../softDelete";
 import {
   formatDocument,
   formatCollection,
+  formatChanges,
+  formatMetadata,
   joinPath,
 } from "../../utils/formatters";
-import { ListenOptions, WhereFilterOp, OrderByDirection } from "../../types";
+import {
+  DocumentChangeEvent,
+  ListenOptions,
+  WhereFilterOp,
+  OrderByDirection,
+} from "../../types";
 import { handleError, reportError, ValidationError } from "../../errors";
 import { CacheManager } from "../../cache/cacheManager";
 import { createLogger } from "../../logging";
@@ -27,6 +37,8 @@ const logger = createLogger("listenData");
 
 /**
  * Sets up a real-time listener for Firestore data changes
+ * Listeners with the same path and query options share one snapshot listener,
+ * which is stopped when the last of them unsubscribes (see listActiveListeners).
  *
  * @template T - Type of the returned data
  * @param {ListenOptions<T>} options - Options for the listener
@@ -35,8 +47,20 @@ const logger = createLogger("listenData");
  * @param {Array<[string, WhereFilterOp, any]>} [options.where] - Optional array of filter conditions in format [field, operator, value]
  * @param {Array<[string, OrderByDirection?]>} [options.orderBy] - Optional array of sort conditions in format [field, direction]
  * @param {number} [options.limit] - Optional maximum number of documents to return
- * @param {Function} options.onNext - Callback function that receives updated data
+ * @param {QueryCursor} [options.startAfter] - Optional cursor to start the results after
+ * @param {QueryCursor} [options.startAt] - Optional cursor to start the results at
+ * @param {QueryCursor} [options.endBefore] - Optional cursor to end the results before
+ * @param {QueryCursor} [options.endAt] - Optional cursor to end the results at
+ * @param {boolean} [options.collectionGroup] - Whether to listen to all collections with the ID given in path
+ * @param {ConversionOptions} [options.convert] - Optional conversion of Timestamps, GeoPoints and references
+ * @param {boolean} [options.includeMetadata] - Whether to pass the snapshot metadata to the callbacks and listen to metadata-only changes
+ * @param {number} [options.debounceMs] - Optional quiet time in milliseconds before the latest snapshot is delivered
+ * @param {number} [options.throttleMs] - Optional minimum time in milliseconds between deliveries
+ * @param {string} [options.instance] - Optional name of the instance to listen to
+ * @param {Function} [options.onNext] - Callback function that receives updated data
+ * @param {Function} [options.onChanges] - Callback function that receives the added, modified and removed documents of a collection
  * @param {Function} [options.onError] - Optional callback function for handling errors
+ * @param {Function} [options.onClose] - Optional callback function called when the listener is stopped by unsubscribeAll or reset
  *
  * @returns {Unsubscribe} Function to call when you want to stop listening
  *
@@ -69,113 +93,302 @@ const logger = createLogger("listenData");
  *     updateUsersList(users);
  *   }
  * });
+ *
+ * @example
+ * // Apply only the changes to a local list
+ * const unsubscribe = listenData({
+ *   path: 'messages',
+ *   orderBy: [['sentAt', 'asc']],
+ *   onChanges: (changes) => {
+ *     changes.forEach(({ type, doc, oldIndex, newIndex }) => {
+ *       if (type !== 'added') messages.splice(oldIndex, 1);
+ *       if (type !== 'removed') messages.splice(newIndex, 0, doc);
+ *     });
+ *   }
+ * });
  */
 export const listenData = <T extends { id: string }>(
   options: ListenOptions<T>
-): Unsubscribe => {
+): Unsubscribe =>
+  runListener(options, (finalOptions) => startListener<T>(finalOptions));
+
+/**
+ * Creates the key of a listener from the options that affect its snapshots
+ * Listeners with the same key share one snapshot listener
+ */
+function createListenerKey(options: ListenOptions<any>): string {
+  return CacheManager.createKey(options.path, {
+    docId: options.docId,
+    where: options.where,
+    orderBy: options.orderBy,
+    limit: options.limit,
+    startAfter: options.startAfter,
+    startAt: options.startAt,
+    endBefore: options.endBefore,
+    endAt: options.endAt,
+    collectionGroup: options.collectionGroup || undefined,
+    convert: options.convert,
+    includeDeleted: options.includeDeleted || undefined,
+    includeMetadata: options.includeMetadata || undefined,
+    instance: options.instance,
+  });
+}
+
+/**
+ * Cancels a pending delivery when the subscriber unsubscribes
+ */
+function cancelOnUnsubscribe(
+  unsubscribe: Unsubscribe,
+  scheduler: DeliveryScheduler | null
+): Unsubscribe {
+  if (!scheduler) {
+    return unsubscribe;
+  }
+  return () => {
+    scheduler.cancel();
+    unsubscribe();
+  };
+}
+
+/**
+ * Sets up the listener once the middleware pipeline has run
+ */
+function startListener<T extends { id: string }>(
+  options: ListenOptions<T>
+): Unsubscribe {
   const {
     path,
     docId,
     onNext,
+    onChanges,
     onError,
-    where: whereOptions,
-    orderBy: orderByOptions,
-    limit: limitCount,
+    onClose,
+    collectionGroup = false,
+    convert,
+    includeDeleted,
+    includeMetadata = false,
+    instance,
   } = options;
 
   try {
     logger.debug("Starting listener with options:", options);
-    const { firestore } = getFirebaseInstance();
+
+    const collectionGroupError = validateCollectionGroup(options);
+    if (collectionGroupError) {
+      throw new ValidationError(collectionGroupError);
+    }
+
+    if (!onNext && !onChanges) {
+      throw new ValidationError(
+        "onNext or onChanges callback is required for listenData"
+      );
+    }
+
+    if (docId && onChanges) {
+      throw new ValidationError(
+        "onChanges is only supported when listening to a collection"
+      );
+    }
+
+    if (options.debounceMs && options.throttleMs) {
+      throw new ValidationError(
+        "debounceMs and throttleMs cannot be combined in listenData"
+      );
+    }
+
+    const { firestore } = getFirebaseInstance(instance);
     const cache = CacheManager.getInstance();
+    const target = {
+      path,
+      docId,
+      instance: instance ?? DEFAULT_INSTANCE,
+    };
+    const snapshotOptions = { includeMetadataChanges: includeMetadata };
 
     if (docId) {
       // Listen to a single document
       const docRef = doc(firestore, path, docId);
 
-      logger.debug("Setting up document snapshot listener");
-      return onSnapshot(
-        docRef,
-        (snapshot) => {
-          try {
-            const data = snapshot.exists()
-              ? ({ id: snapshot.id, ...snapshot.data() } as T)
-              : null;
+      // Calls the callback with a snapshot
+      const deliver = (snapshot: DocumentSnapshot) => {
+        try {
+          // Soft-deleted documents are reported as missing
+          const data =
+            !includeDeleted && isSoftDeleted(path, snapshot.data())
+              ? null
+              : formatDocument<T>(snapshot, { convert });
 
-            // Invalidate cache for this path
-            logger.debug("Invalidating cache for path:", path);
-            cache.invalidateByPath(path);
+          const metadata = includeMetadata
+            ? [formatMetadata(snapshot.metadata)]
+            : [];
 
-            // Call callback with updated data
-            logger.debug("Calling onNext with updated data");
-            onNext(data);
-          } catch (error) {
-            logger.error("Error processing document snapshot:", error);
-            if (onError) {
-              onError(handleError(error));
-            }
-          }
-        },
-        (error) => {
-          logger.error("Document listener error:", error);
+          // Call callback with updated data
+          logger.debug("Calling onNext with updated data");
+          onNext?.(data, ...metadata);
+        } catch (error) {
+          logger.error("Error processing document snapshot:", error);
           if (onError) {
             onError(handleError(error));
           }
         }
+      };
+
+      let latest: DocumentSnapshot | null = null;
+      const scheduler = createDeliveryScheduler(options, () => {
+        const snapshot = latest;
+        latest = null;
+        if (snapshot) {
+          deliver(snapshot);
+        }
+      });
+
+      const unsubscribe = subscribeListener<DocumentSnapshot>(
+        createListenerKey(options),
+        target,
+        (sink) => {
+          logger.debug("Setting up document snapshot listener");
+          return onSnapshot(
+            docRef,
+            snapshotOptions,
+            (snapshot) => {
+              // Invalidate cache for this path
+              logger.debug("Invalidating cache for path:", path);
+              cache.invalidateByPath(path, instance);
+              sink.next(snapshot);
+            },
+            sink.error
+          );
+        },
+        {
+          next: (snapshot) => {
+            if (scheduler) {
+              latest = snapshot;
+              scheduler.schedule();
+            } else {
+              deliver(snapshot);
+            }
+          },
+          error: (error) => {
+            logger.error("Document listener error:", error);
+            scheduler?.cancel();
+            if (onError) {
+              onError(handleError(error));
+            }
+          },
+          stop: () => {
+            scheduler?.cancel();
+            onClose?.();
+          },
+        }
       );
+      return cancelOnUnsubscribe(unsubscribe, scheduler);
     } else {
       // Listen to a collection
-      let queryRef: Query = collection(firestore, path);
-
-      // Apply where conditions
-      if (whereOptions && whereOptions.length > 0) {
-        whereOptions.forEach(([field, op, value]) => {
-          queryRef = query(queryRef, where(field, op, value));
-        });
-      }
-
-      // Apply sorting
-      if (orderByOptions && orderByOptions.length > 0) {
-        orderByOptions.forEach(([field, direction]) => {
-          queryRef = query(queryRef, orderBy(field, direction));
-        });
-      }
-
-      // Apply limit
-      if (limitCount) {
-        queryRef = query(queryRef, limit(limitCount));
-      }
-
-      logger.debug("Setting up collection snapshot listener");
-      return onSnapshot(
-        queryRef,
-        (snapshot) => {
-          try {
-            const data = snapshot.docs.map((doc) => ({
-              id: doc.id,
-              ...doc.data(),
-            })) as T[];
-
-            // Invalidate cache for this path
-            logger.debug("Invalidating cache for path:", path);
-            cache.invalidateByPath(path);
-
-            // Call callback with updated data
+      const queryRef = buildQuery(firestore, options, logger);
+      const formatOptions = { includePath: collectionGroup, convert };
+
+      // Calls the callbacks with a snapshot and its changes
+      const deliver = (
+        snapshot: QuerySnapshot,
+        getChanges: () => DocumentChangeEvent<T>[]
+      ) => {
+        try {
+          const metadata = includeMetadata
+            ? [formatMetadata(snapshot.metadata)]
+            : [];
+
+          // Call callbacks with the changes and the updated data
+          if (onChanges) {
+            logger.debug("Calling onChanges with document changes");
+            onChanges(getChanges(), ...metadata);
+          }
+          if (onNext) {
             logger.debug("Calling onNext with updated data");
-            onNext(data);
-          } catch (error) {
-            logger.error("Error processing collection snapshot:", error);
-            if (onError) {
-              onError(handleError(error));
-            }
+            onNext(formatCollection<T>(snapshot, formatOptions), ...metadata);
           }
-        },
-        (error) => {
-          logger.error("Collection listener error:", error);
+        } catch (error) {
+          logger.error("Error processing collection snapshot:", error);
           if (onError) {
             onError(handleError(error));
           }
         }
+      };
+
+      // Coalesced deliveries report the changes since the last delivery
+      let latest: QuerySnapshot | null = null;
+      let delivered: DeliveredDocument<T>[] = [];
+      const modified = new Set<string>();
+
+      const mergeChanges = (snapshot: QuerySnapshot) => {
+        const documents = snapshot.docs.map((document) => ({
+          path: document.ref.path,
+          doc: formatDocument<T>(document, formatOptions) as T,
+        }));
+        const changes = diffDocuments(delivered, documents, modified);
+        delivered = documents;
+        modified.clear();
+        return changes;
+      };
+
+      const scheduler = createDeliveryScheduler(options, () => {
+        const snapshot = latest;
+        latest = null;
+        if (snapshot) {
+          deliver(snapshot, () => mergeChanges(snapshot));
+        }
+      });
+
+      const unsubscribe = subscribeListener<QuerySnapshot>(
+        createListenerKey(options),
+        target,
+        (sink) => {
+          logger.debug("Setting up collection snapshot listener");
+          return onSnapshot(
+            queryRef,
+            snapshotOptions,
+            (snapshot) => {
+              // Invalidate cache for this path
+              logger.debug("Invalidating cache for path:", path);
+              if (collectionGroup) {
+                cache.invalidateCollection(path, instance);
+              } else {
+                cache.invalidateByPath(path, instance);
+              }
+              sink.next(snapshot);
+            },
+            sink.error
+          );
+        },
+        {
+          next: (snapshot, first) => {
+            if (!scheduler) {
+              deliver(snapshot, () =>
+                formatChanges<T>(snapshot, formatOptions, first)
+              );
+              return;
+            }
+            if (onChanges && !first) {
+              snapshot
+                .docChanges()
+                .forEach((change) => modified.add(change.doc.ref.path));
+            }
+            latest = snapshot;
+            scheduler.schedule();
+          },
+          error: (error) => {
+            logger.error("Collection listener error:", error);
+            scheduler?.cancel();
+            if (onError) {
+              onError(handleError(error));
+            }
+          },
+          stop: () => {
+            scheduler?.cancel();
+            onClose?.();
+          },
+        }
       );
+      return cancelOnUnsubscribe(unsubscribe, scheduler);
     }
   } catch (error) {
     logger.error("Error setting up listener:", error);
@@ -185,4 +398,4 @@ export const listenData = <T extends { id: string }>(
     // Return a no-op unsubscribe function if we couldn't set up the listener
     return () => {};
   }
-};
+}
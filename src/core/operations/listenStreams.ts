@@ -0,0 +1,256 @@
+import { Unsubscribe } from "firebase/firestore";
+import { listenData } from "./listenData";
+import { ListenOptions } from "../../types";
+
+declare global {
+  interface SymbolConstructor {
+    /** Symbol of the interop method of Observable implementations (polyfilled by RxJS and others) */
+    readonly observable: symbol;
+  }
+}
+
+/**
+ * Options of listenIterable and listenObservable - the callbacks are replaced
+ * by the iterator or the observer
+ */
+export type ListenStreamOptions<T = any> = Omit<
+  ListenOptions<T>,
+  "onNext" | "onChanges" | "onError" | "onClose"
+>;
+
+/**
+ * Observer of a listener, compatible with the Observable proposal and RxJS
+ */
+export interface ListenObserver<V> {
+  next?: (value: V) => void;
+  error?: (error: Error) => void;
+  complete?: () => void;
+}
+
+/**
+ * Subscription returned by ListenObservable.subscribe
+ */
+export interface ListenSubscription {
+  /** Stops the listener */
+  unsubscribe(): void;
+  /** Whether the subscription has ended */
+  readonly closed: boolean;
+}
+
+/**
+ * Minimal Observable of listener values
+ * Can be passed to RxJS `from()` and other libraries supporting Symbol.observable
+ */
+export interface ListenObservable<V> {
+  subscribe(
+    observer?: ListenObserver<V> | ((value: V) => void),
+    error?: (error: Error) => void,
+    complete?: () => void
+  ): ListenSubscription;
+  [Symbol.observable](): ListenObservable<V>;
+  "@@observable"(): ListenObservable<V>;
+}
+
+/**
+ * Listens to data and returns the values as an async iterable
+ * Each iteration starts its own listener, which is stopped when the loop ends
+ * (by break, return or an error). The loop also ends when the listener is
+ * stopped by unsubscribeAll or reset. Values are not buffered - if the loop is
+ * slower than the snapshots, it continues with the latest data.
+ *
+ * @template T - Type of the documents
+ * @param {ListenStreamOptions<T>} options - Options of the listener (as in listenData, without callbacks)
+ * @returns {AsyncIterable} Iterable of the document (or null if it doesn't exist), or of the document lists of a collection
+ * @throws {FirestoreHelperError} From the iteration, if the listener fails
+ *
+ * @example
+ * // Stream active users to a server-side client
+ * for await (const users of listenIterable<User>({
+ *   path: 'users',
+ *   where: [['isActive', '==', true]]
+ * })) {
+ *   socket.send(JSON.stringify(users));
+ *   if (socket.closed) break;
+ * }
+ */
+export function listenIterable<T extends { id: string }>(
+  options: ListenStreamOptions<T> & { docId: string }
+): AsyncIterable<T | null>;
+export function listenIterable<T extends { id: string }>(
+  options: ListenStreamOptions<T> & { docId?: undefined }
+): AsyncIterable<T[]>;
+export function listenIterable<T extends { id: string }>(
+  options: ListenStreamOptions<T>
+): AsyncIterable<T | T[] | null> {
+  return {
+    [Symbol.asyncIterator](): AsyncIterator<T | T[] | null> {
+      type Value = T | T[] | null;
+
+      let latest: { value: Value } | null = null;
+      let failure: Error | null = null;
+      let waiting: {
+        resolve: (result: IteratorResult<Value>) => void;
+        reject: (error: Error) => void;
+      } | null = null;
+      let closed = false;
+      let unsubscribe: Unsubscribe | null = null;
+
+      const close = () => {
+        closed = true;
+        unsubscribe?.();
+      };
+
+      unsubscribe = listenData<T>({
+        ...options,
+        onNext: (data) => {
+          if (waiting) {
+            waiting.resolve({ value: data, done: false });
+            waiting = null;
+          } else {
+            latest = { value: data };
+          }
+        },
+        onError: (error) => {
+          close();
+          if (waiting) {
+            waiting.reject(error);
+            waiting = null;
+          } else {
+            failure = error;
+          }
+        },
+        onClose: () => {
+          closed = true;
+          waiting?.resolve({ value: undefined, done: true });
+          waiting = null;
+        },
+      });
+      if (closed) {
+        unsubscribe();
+      }
+
+      return {
+        next() {
+          if (latest) {
+            const { value } = latest;
+            latest = null;
+            return Promise.resolve({ value, done: false });
+          }
+          if (failure) {
+            const error = failure;
+            failure = null;
+            return Promise.reject(error);
+          }
+          if (closed) {
+            return Promise.resolve({ value: undefined, done: true });
+          }
+          return new Promise((resolve, reject) => {
+            waiting = { resolve, reject };
+          });
+        },
+        return() {
+          close();
+          latest = null;
+          waiting?.resolve({ value: undefined, done: true });
+          waiting = null;
+          return Promise.resolve({ value: undefined, done: true });
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Listens to data and returns the values as an Observable
+ * Each subscription starts its own listener (sharing the snapshot listener as
+ * listenData does), which is stopped on unsubscribe or when the listener fails.
+ * Observers are completed when the listener is stopped by unsubscribeAll or reset.
+ *
+ * @template T - Type of the documents
+ * @param {ListenStreamOptions<T>} options - Options of the listener (as in listenData, without callbacks)
+ * @returns {ListenObservable} Observable of the document (or null if it doesn't exist), or of the document lists of a collection
+ *
+ * @example
+ * // Use the listener in RxJS
+ * const activeUsers$ = from(listenObservable<User>({
+ *   path: 'users',
+ *   where: [['isActive', '==', true]]
+ * }));
+ *
+ * const subscription = activeUsers$
+ *   .pipe(map((users) => users.length))
+ *   .subscribe((count) => console.log(`${count} active users`));
+ *
+ * // Later, to stop listening:
+ * subscription.unsubscribe();
+ */
+export function listenObservable<T extends { id: string }>(
+  options: ListenStreamOptions<T> & { docId: string }
+): ListenObservable<T | null>;
+export function listenObservable<T extends { id: string }>(
+  options: ListenStreamOptions<T> & { docId?: undefined }
+): ListenObservable<T[]>;
+export function listenObservable<T extends { id: string }>(
+  options: ListenStreamOptions<T>
+): ListenObservable<T | T[] | null> {
+  type Value = T | T[] | null;
+
+  const interop = () => observable;
+  const observable = {
+    subscribe(observerOrNext, error, complete) {
+      const observer: ListenObserver<Value> =
+        typeof observerOrNext === "function"
+          ? { next: observerOrNext, error, complete }
+          : observerOrNext ?? {};
+
+      let closed = false;
+      let unsubscribe: Unsubscribe | null = null;
+
+      const subscription: ListenSubscription = {
+        get closed() {
+          return closed;
+        },
+        unsubscribe() {
+          if (!closed) {
+            closed = true;
+            unsubscribe?.();
+          }
+        },
+      };
+
+      unsubscribe = listenData<T>({
+        ...options,
+        onNext: (data) => {
+          if (!closed) {
+            observer.next?.(data);
+          }
+        },
+        onError: (listenerError) => {
+          if (!closed) {
+            subscription.unsubscribe();
+            observer.error?.(listenerError);
+          }
+        },
+        onClose: () => {
+          if (!closed) {
+            closed = true;
+            observer.complete?.();
+          }
+        },
+      });
+      if (closed) {
+        unsubscribe();
+      }
+
+      return subscription;
+    },
+    "@@observable": interop,
+  } as ListenObservable<Value>;
+
+  // RxJS and others use Symbol.observable if it is polyfilled, "@@observable" otherwise
+  if (typeof Symbol === "function" && Symbol.observable) {
+    observable[Symbol.observable] = interop;
+  }
+
+  return observable;
+}
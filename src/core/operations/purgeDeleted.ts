@@ -0,0 +1,117 @@
+import { collection, getDocs, limit, query, where } from "firebase/firestore";
+import { getFirebaseInstance } from "../firebase";
+import {
+  commitWrites,
+  invalidateWrites,
+  MAX_BATCH_SIZE,
+  PreparedWrite,
+} from "../batchWriter";
+import { defaultSoftDeleteConfig, getSoftDeleteConfig } from "../softDelete";
+import { PurgeDeletedOptions, PurgeResult, Result } from "../../types";
+import { handleError, reportError, ValidationError } from "../../errors";
+import { createLogger } from "../../logging";
+import { CacheManager } from "../../cache/cacheManager";
+
+// Create a logger for this operation
+const logger = createLogger("purgeDeleted");
+
+// Get cache manager instance lazily
+let cacheInstance: CacheManager | null = null;
+const getCache = () => {
+  if (!cacheInstance) {
+    cacheInstance = CacheManager.getInstance();
+  }
+  return cacheInstance;
+};
+
+/**
+ * Permanently deletes soft-deleted documents of a collection
+ * Documents are read and deleted in chunks of MAX_BATCH_SIZE. If a chunk fails,
+ * the documents of earlier chunks stay deleted - run the purge again to continue.
+ *
+ * @param {PurgeDeletedOptions} options - Options for the purge
+ * @param {string} options.path - Path to the collection
+ * @param {Date | number} options.olderThan - Purge documents deleted before this date, or more than this many milliseconds ago
+ * @param {string} [options.instance] - Optional name of the instance to delete from
+ * @returns {Promise<Result<PurgeResult>>} Result object containing the number of purged documents
+ *
+ * @example
+ * // Purge users deleted more than 30 days ago
+ * const { data } = await purgeDeleted({
+ *   path: 'users',
+ *   olderThan: 30 * 24 * 60 * 60 * 1000
+ * });
+ * console.log(`Purged ${data?.purged} users`);
+ */
+export async function purgeDeleted(
+  options: PurgeDeletedOptions
+): Promise<Result<PurgeResult>> {
+  logger.debug("Called with options", options);
+
+  // Validate required parameters
+  if (!options.path) {
+    const error = new ValidationError(
+      "Path parameter is required for purgeDeleted"
+    );
+    reportError(error);
+    logger.error("Missing required parameter: path");
+    return { data: null, error, loading: false };
+  }
+
+  if (options.olderThan === undefined || options.olderThan === null) {
+    const error = new ValidationError(
+      "OlderThan parameter is required for purgeDeleted"
+    );
+    reportError(error);
+    logger.error("Missing required parameter: olderThan");
+    return { data: null, error, loading: false };
+  }
+
+  const { path, olderThan, instance } = options;
+  const { field } = getSoftDeleteConfig(path) ?? defaultSoftDeleteConfig;
+  const cutoff =
+    olderThan instanceof Date ? olderThan : new Date(Date.now() - olderThan);
+
+  try {
+    logger.info(
+      `Purging documents at path: ${path} deleted before ${cutoff.toISOString()}`
+    );
+    const { firestore } = getFirebaseInstance(instance);
+
+    // Documents without the field or with null are not matched by the range filter
+    const queryRef = query(
+      collection(firestore, path),
+      where(field, "<", cutoff),
+      limit(MAX_BATCH_SIZE)
+    );
+
+    let purged = 0;
+    for (;;) {
+      const snapshot = await getDocs(queryRef);
+      const writes: PreparedWrite[] = snapshot.docs.map((document) => ({
+        type: "delete",
+        ref: document.ref,
+        path,
+      }));
+
+      await commitWrites(firestore, writes, {
+        logger,
+        onCommitted: (chunk) => invalidateWrites(getCache(), chunk, instance),
+      });
+      purged += writes.length;
+
+      if (writes.length < MAX_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    logger.info(`Successfully purged ${purged} documents`);
+    return { data: { purged }, error: null, loading: false };
+  } catch (error) {
+    // Convert to our structured error format
+    logger.error("Error purging deleted data", error);
+    const structuredError = handleError(error);
+    reportError(structuredError);
+    return { data: null, error: structuredError, loading: false };
+  }
+}
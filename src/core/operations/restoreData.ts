@@ -0,0 +1,92 @@
+import { doc, updateDoc } from "firebase/firestore";
+import { getFirebaseInstance } from "../firebase";
+import { withRetry } from "../retry";
+import { withTimeout } from "../timeout";
+import { defaultSoftDeleteConfig, getSoftDeleteConfig } from "../softDelete";
+import { RestoreOptions, Result } from "../../types";
+import { joinPath } from "../../utils/formatters";
+import { handleError, reportError, ValidationError } from "../../errors";
+import { createLogger } from "../../logging";
+import { CacheManager } from "../../cache/cacheManager";
+
+// Create a logger for this operation
+const logger = createLogger("restoreData");
+
+// Get cache manager instance lazily
+let cacheInstance: CacheManager | null = null;
+const getCache = () => {
+  if (!cacheInstance) {
+    cacheInstance = CacheManager.getInstance();
+  }
+  return cacheInstance;
+};
+
+/**
+ * Restores a soft-deleted document by clearing its deletedAt field
+ *
+ * @param {RestoreOptions} options - Options for restoring the document
+ * @param {string} options.path - Path to the collection containing the document
+ * @param {string} options.docId - ID of the document to restore
+ * @param {string} [options.instance] - Optional name of the instance to write to
+ * @param {RetryOptions} [options.retry] - Optional retry policy for this call, or false to disable retries
+ * @param {number} [options.timeoutMs] - Optional time limit of each attempt in milliseconds
+ * @returns {Promise<Result<null>>} Result object containing only a potential error
+ *
+ * @example
+ * const { error } = await restoreData({ path: 'users', docId: 'user123' });
+ */
+export async function restoreData(
+  options: RestoreOptions
+): Promise<Result<null>> {
+  logger.debug("Called with options", options);
+
+  // Validate required parameters
+  if (!options.path) {
+    const error = new ValidationError(
+      "Path parameter is required for restoreData"
+    );
+    reportError(error);
+    logger.error("Missing required parameter: path");
+    return { data: null, error, loading: false };
+  }
+
+  if (!options.docId) {
+    const error = new ValidationError(
+      "DocId parameter is required for restoreData"
+    );
+    reportError(error);
+    logger.error("Missing required parameter: docId");
+    return { data: null, error, loading: false };
+  }
+
+  const { path, docId, instance, retry, timeoutMs } = options;
+  const { field } = getSoftDeleteConfig(path) ?? defaultSoftDeleteConfig;
+
+  try {
+    logger.info(`Restoring document at path: ${path}/${docId}`);
+    const { firestore } = getFirebaseInstance(instance);
+
+    // Clearing the field is idempotent, so the write can always be retried
+    const docRef = doc(firestore, joinPath(path, docId));
+    const write = () => updateDoc(docRef, { [field]: null });
+    await withRetry(
+      "restoreData",
+      () => withTimeout("restoreData", write, timeoutMs),
+      { retry, logger }
+    );
+
+    // Invalidate both document and collection cache
+    getCache().remove(CacheManager.createKey(path, { docId, instance }));
+    getCache().invalidateCollection(path, instance);
+    logger.debug("Invalidated document and collection cache");
+
+    logger.info("Successfully restored document");
+    return { data: null, error: null, loading: false };
+  } catch (error) {
+    // Convert to our structured error format
+    logger.error("Error restoring data", error);
+    const structuredError = handleError(error);
+    reportError(structuredError);
+    return { data: null, error: structuredError, loading: false };
+  }
+}
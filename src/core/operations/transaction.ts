@@ -0,0 +1,274 @@
+import {
+  doc,
+  collection,
+  runTransaction,
+  Firestore,
+  Transaction,
+} from "firebase/firestore";
+import { getFirebaseInstance } from "../firebase";
+import { applyTimestamps } from "../timestamps";
+import {
+  applyDeletedField,
+  createDeletedData,
+  resolveSoftDelete,
+} from "../softDelete";
+import { invalidateWrites, PreparedWrite } from "../batchWriter";
+import { validateWriteSync } from "../validation";
+import {
+  CreateOptions,
+  DeleteOptions,
+  InstanceOptions,
+  Result,
+  UpdateOptions,
+} from "../../types";
+import { formatDocument, joinPath } from "../../utils/formatters";
+import { toFirestoreData } from "../../utils/fieldTransforms";
+import { handleError, reportError, ValidationError } from "../../errors";
+import { createLogger } from "../../logging";
+import { CacheManager } from "../../cache/cacheManager";
+
+// Create a logger for this operation
+const logger = createLogger("transaction");
+
+// Get cache manager instance lazily
+let cacheInstance: CacheManager | null = null;
+const getCache = () => {
+  if (!cacheInstance) {
+    cacheInstance = CacheManager.getInstance();
+  }
+  return cacheInstance;
+};
+
+/**
+ * Options for reading a document inside a transaction
+ */
+export interface TransactionGetOptions {
+  /** Path to the collection in Firestore */
+  path: string;
+  /** Document ID of the document to read */
+  docId: string;
+}
+
+/**
+ * Options of a transaction operation - the instance is chosen for the whole
+ * transaction and retries are handled by Firestore
+ */
+type TransactionOperationOptions<O> = Omit<
+  O,
+  "instance" | "retry" | "timeoutMs"
+>;
+
+/**
+ * Options of a delete in a transaction - recursive deletes cannot be part of a transaction
+ */
+type TransactionRemoveOptions = Omit<
+  TransactionOperationOptions<DeleteOptions>,
+  "recursive" | "subcollections" | "onProgress"
+>;
+
+/**
+ * Options for running a transaction
+ */
+export interface TransactionOptions extends InstanceOptions {
+  /** Maximum number of attempts before the transaction fails (default 5) */
+  maxAttempts?: number;
+}
+
+/**
+ * Transaction context passed to the transaction callback
+ * All reads must happen before the first write
+ */
+export interface TransactionHelper {
+  /** Reads a document, returns null if it does not exist */
+  get<T = any>(options: TransactionGetOptions): Promise<T | null>;
+  /** Creates a document and returns its ID */
+  create<T extends object>(
+    options: TransactionOperationOptions<CreateOptions<T>>
+  ): string;
+  /** Updates a document (merges by default, like update) */
+  update<T extends object>(
+    options: TransactionOperationOptions<UpdateOptions<T>>
+  ): void;
+  /** Deletes a document (or marks it as deleted, like removeDoc) */
+  remove(options: TransactionRemoveOptions): void;
+}
+
+/**
+ * Throws a ValidationError if a required transaction parameter is missing
+ */
+function requireParam(value: unknown, name: string, method: string): void {
+  if (!value) {
+    throw new ValidationError(
+      `${name} parameter is required for transaction ${method}`
+    );
+  }
+}
+
+/**
+ * Throws the ValidationError of data rejected by the registered validators
+ */
+function requireValid(
+  operation: "create" | "update",
+  path: string,
+  docId: string | undefined,
+  data: Record<string, any>,
+  partial: boolean
+): void {
+  const validationError = validateWriteSync(
+    operation,
+    path,
+    docId,
+    data,
+    partial
+  );
+  if (validationError) {
+    throw validationError;
+  }
+}
+
+/**
+ * Creates the helper wrapping a Firestore transaction
+ * Every write is recorded so the cache can be invalidated after the commit
+ */
+function createTransactionHelper(
+  firestore: Firestore,
+  transaction: Transaction,
+  writes: PreparedWrite[]
+): TransactionHelper {
+  return {
+    async get<T>({ path, docId }: TransactionGetOptions) {
+      requireParam(path, "Path", "get");
+      requireParam(docId, "DocId", "get");
+
+      logger.debug(`Reading document at path: ${path}/${docId}`);
+      const snapshot = await transaction.get(
+        doc(firestore, joinPath(path, docId))
+      );
+      return formatDocument<T>(snapshot);
+    },
+
+    create({ path, docId, data }) {
+      requireParam(path, "Path", "create");
+      requireParam(data, "Data", "create");
+
+      const prepared = applyDeletedField(
+        path,
+        applyTimestamps("create", path, data)
+      );
+      requireValid("create", path, docId, prepared, false);
+
+      const ref = docId
+        ? doc(firestore, joinPath(path, docId))
+        : doc(collection(firestore, path));
+      transaction.set(ref, toFirestoreData(prepared));
+      writes.push({ type: "set", ref, path });
+      return ref.id;
+    },
+
+    update({ path, docId, data, merge = true }) {
+      requireParam(path, "Path", "update");
+      requireParam(docId, "DocId", "update");
+      requireParam(data, "Data", "update");
+
+      const timestamped = applyTimestamps("update", path, data);
+      const prepared = merge
+        ? timestamped
+        : applyDeletedField(path, timestamped);
+      requireValid("update", path, docId, prepared, merge);
+
+      const ref = doc(firestore, joinPath(path, docId));
+      if (merge) {
+        transaction.update(ref, toFirestoreData(prepared));
+      } else {
+        transaction.set(ref, toFirestoreData(prepared));
+      }
+      writes.push({ type: merge ? "update" : "set", ref, path });
+    },
+
+    remove({ path, docId, soft }) {
+      requireParam(path, "Path", "remove");
+      requireParam(docId, "DocId", "remove");
+
+      const ref = doc(firestore, joinPath(path, docId));
+      const softDelete = resolveSoftDelete(path, soft);
+      if (softDelete) {
+        transaction.update(ref, toFirestoreData(createDeletedData(softDelete)));
+        writes.push({ type: "update", ref, path });
+        return;
+      }
+      transaction.delete(ref);
+      writes.push({ type: "delete", ref, path });
+    },
+  };
+}
+
+/**
+ * Runs a read-modify-write transaction
+ *
+ * The callback may be executed several times if the read documents change
+ * before the transaction commits, so it should not have side effects.
+ * Cache entries of the written documents are invalidated only after the commit.
+ * Creates and updates are checked by the registered synchronous validators - a
+ * rejected write throws a ValidationError, which ends the transaction.
+ * Asynchronous validators are skipped, as transaction writes are synchronous.
+ *
+ * @template R - Type of the value returned by the callback
+ * @param {Function} callback - Function receiving the transaction helper
+ * @param {TransactionOptions} [options] - Transaction options
+ * @param {number} [options.maxAttempts=5] - Maximum number of attempts before the transaction fails
+ * @param {string} [options.instance] - Optional name of the instance to run the transaction on
+ * @returns {Promise<Result<R>>} Result object containing the value returned by the callback
+ *
+ * @example
+ * // Decrement inventory without race conditions
+ * const result = await transactionData(async (tx) => {
+ *   const product = await tx.get<Product>({ path: 'products', docId: 'p1' });
+ *   if (!product || product.stock < 1) {
+ *     throw new Error('Out of stock');
+ *   }
+ *   tx.update({ path: 'products', docId: 'p1', data: { stock: product.stock - 1 } });
+ *   return tx.create({ path: 'orders', data: { productId: 'p1' } });
+ * });
+ *
+ * if (!result.error) {
+ *   console.log('Created order', result.data);
+ * }
+ */
+export async function transactionData<R>(
+  callback: (tx: TransactionHelper) => Promise<R>,
+  options: TransactionOptions = {}
+): Promise<Result<R>> {
+  logger.debug("Called with options", options);
+
+  const { instance, maxAttempts } = options;
+  let writes: PreparedWrite[] = [];
+
+  try {
+    const { firestore } = getFirebaseInstance(instance);
+
+    const data = await runTransaction(
+      firestore,
+      (transaction) => {
+        // The callback may be retried, so start each attempt with no recorded writes
+        writes = [];
+        return callback(
+          createTransactionHelper(firestore, transaction, writes)
+        );
+      },
+      maxAttempts !== undefined ? { maxAttempts } : undefined
+    );
+
+    // Invalidate cache of all written documents
+    invalidateWrites(getCache(), writes, instance);
+    logger.debug("Invalidated cache for all written documents");
+
+    logger.info(`Successfully committed transaction with ${writes.length} writes`);
+    return { data, error: null, loading: false };
+  } catch (error) {
+    // Convert to our structured error format
+    logger.error("Error running transaction", error);
+    const structuredError = handleError(error);
+    reportError(structuredError);
+    return { data: null, error: structuredError, loading: false };
+  }
+}
@@ -3,13 +3,23 @@ import {
   setDoc,
   collection,
   updateDoc,
-  DocumentData,
 } from "firebase/firestore";
 import { getFirebaseInstance } from "../firebase";
+import { runOperation } from "../middleware";
+import { withRetry } from "../retry";
+import { withTimeout } from "../timeout";
+import { validateWrite } from "../validation";
+import { applyTimestamps } from "../timestamps";
+import { applyDeletedField } from "../softDelete";
 import { UpdateOptions, Result } from "../../types";
 import { getData } from "./getData";
 import { listenData } from "./listenData";
 import { joinPath } from "../../utils/formatters";
+import {
+  toFirestoreData,
+  resolveFieldTransforms,
+  hasFieldTransforms,
+} from "../../utils/fieldTransforms";
 import { handleError, reportError, ValidationError } from "../../errors";
 import { createLogger } from "../../logging";
 import { CacheManager } from "../../cache/cacheManager";
@@ -37,6 +47,9 @@ const getCache = () => {
  * @param {boolean} [options.merge=true] - Whether to merge with existing data (true) or overwrite the document (false)
  * @param {boolean} [options.silent=false] - If true, the function will not return any data, only errors (good for use with real-time listeners)
  * @param {boolean} [options.useListener=false] - Whether to return a listener for the document instead of a one-time fetch
+ * @param {string} [options.instance] - Optional name of the instance to write to
+ * @param {RetryOptions} [options.retry] - Optional retry policy for this call, or false to disable retries
+ * @param {number} [options.timeoutMs] - Optional time limit of each attempt in milliseconds
  *
  * @returns {Promise<Result<T> | (() => void) | Result<null>>} Result object containing the updated document, an unsubscribe function if useListener is true, or just Result with error if silent is true
  *
@@ -88,9 +101,32 @@ const getCache = () => {
  *
  * // Later, when you no longer need updates:
  * unsubscribe();
+ *
+ * @example
+ * // Update with field transforms
+ * const result = await updateData({
+ *   path: 'posts',
+ *   docId: 'post123',
+ *   data: {
+ *     views: increment(1),
+ *     tags: arrayUnion('featured'),
+ *     draft: deleteField()
+ *   }
+ * });
  */
 export async function updateData<T extends { id: string }>(
   options: UpdateOptions<T>
+): Promise<Result<T>> {
+  return runOperation("update", options, (finalOptions) =>
+    executeUpdateData<T>(finalOptions)
+  );
+}
+
+/**
+ * Updates the document once the middleware pipeline has run
+ */
+async function executeUpdateData<T extends { id: string }>(
+  options: UpdateOptions<T>
 ): Promise<Result<T>> {
   logger.debug("Called with options", options);
 
@@ -122,31 +158,66 @@ export async function updateData<T extends { id: string }>(
     return { data: null, error, loading: false };
   }
 
-  const { path, docId, data, merge = true, silent } = options;
+  const {
+    path,
+    docId,
+    merge = true,
+    silent,
+    instance,
+    retry,
+    timeoutMs,
+  } = options;
+
+  // Add the updatedAt field if timestamps are enabled - overwrites also keep
+  // the document visible in soft-delete collections
+  const timestamped = applyTimestamps("update", path, options.data);
+  const data = merge ? timestamped : applyDeletedField(path, timestamped);
 
   try {
+    // Validate the data against registered validators - merged updates
+    // are validated only for the fields they change
+    const validationError = await validateWrite(
+      "update",
+      path,
+      docId,
+      data,
+      merge
+    );
+    if (validationError) {
+      reportError(validationError);
+      logger.error(validationError.message);
+      return { data: null, error: validationError, loading: false };
+    }
+
     logger.info(`Updating document at path: ${path}/${docId}`);
-    const { firestore } = getFirebaseInstance();
+    const { firestore } = getFirebaseInstance(instance);
 
     // Get document reference
     const docRef = doc(firestore, joinPath(path, docId));
 
-    // Update or set the document
-    if (merge) {
-      await updateDoc(docRef, data as DocumentData);
-    } else {
-      await setDoc(docRef, data as DocumentData);
-    }
+    // Update or set the document - only increments cannot be safely repeated
+    const firestoreData = toFirestoreData(data);
+    const write = () =>
+      merge ? updateDoc(docRef, firestoreData) : setDoc(docRef, firestoreData);
+    await withRetry(
+      "updateData",
+      () => withTimeout("updateData", write, timeoutMs),
+      {
+        retry,
+        idempotent: !hasFieldTransforms(data, ["increment"]),
+        logger,
+      }
+    );
 
     // Format response data
     const updatedData = {
-      ...data,
+      ...resolveFieldTransforms(data),
       id: docId,
     } as T;
 
     // Invalidate both document and collection cache
-    getCache().remove(CacheManager.createKey(path, { docId }));
-    getCache().invalidateCollection(path);
+    getCache().remove(CacheManager.createKey(path, { docId, instance }));
+    getCache().invalidateCollection(path, instance);
     logger.debug("Invalidated document and collection cache");
 
     logger.info("Successfully updated document");
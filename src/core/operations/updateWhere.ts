@@ -0,0 +1,207 @@
+import { DocumentData } from "firebase/firestore";
+import { getFirebaseInstance } from "../firebase";
+import { buildQuery, forEachQueryPage } from "../query";
+import {
+  commitWritesSettled,
+  invalidateWrites,
+  MAX_BATCH_SIZE,
+  PreparedWrite,
+} from "../batchWriter";
+import { validateWrite } from "../validation";
+import { applyTimestamps } from "../timestamps";
+import {
+  FieldTransform,
+  isPlainObject,
+  toFirestoreData,
+} from "../../utils/fieldTransforms";
+import { UpdateWhereOptions, WhereWriteResult, Result } from "../../types";
+import { handleError, reportError, ValidationError } from "../../errors";
+import { createLogger } from "../../logging";
+import { CacheManager } from "../../cache/cacheManager";
+
+// Create a logger for this operation
+const logger = createLogger("updateWhere");
+
+// Get cache manager instance lazily
+let cacheInstance: CacheManager | null = null;
+const getCache = () => {
+  if (!cacheInstance) {
+    cacheInstance = CacheManager.getInstance();
+  }
+  return cacheInstance;
+};
+
+/**
+ * Returns true if merging the patch would leave the document unchanged
+ * Only primitive values are compared - objects, arrays and field transforms
+ * always count as a change
+ */
+function isUnchanged(document: DocumentData, patch: DocumentData): boolean {
+  return Object.entries(patch).every(([key, value]) => {
+    if (
+      value instanceof FieldTransform ||
+      (value !== null && typeof value === "object")
+    ) {
+      return false;
+    }
+    const current = key
+      .split(".")
+      .reduce<unknown>(
+        (parent, field) => (isPlainObject(parent) ? parent[field] : undefined),
+        document
+      );
+    return current === value;
+  });
+}
+
+/**
+ * Updates all documents matching a query
+ * Matching documents are read in pages of MAX_BATCH_SIZE and each page is committed
+ * as one batch. A failing batch does not stop the update - its documents are counted
+ * as failed and the error of the first failing batch is returned along with the counts.
+ *
+ * @template T - Type of the document data
+ * @param {UpdateWhereOptions<T>} options - Options for the update
+ * @param {string} options.path - Path to the collection
+ * @param {Array<[string, WhereFilterOp, any]>} [options.where] - Filter conditions of the documents to update
+ * @param {Partial<T>} options.data - Data to merge into each matching document
+ * @param {boolean} [options.dryRun=false] - Only return the IDs of the matching documents
+ * @param {boolean} [options.includeDeleted=false] - Whether to update soft-deleted documents too
+ * @param {string} [options.instance] - Optional name of the instance to write to
+ * @returns {Promise<Result<WhereWriteResult>>} Result object containing the numbers of matched, changed and failed documents
+ *
+ * @example
+ * // Deactivate all users who have not logged in since 2023
+ * const { data } = await updateWhere({
+ *   path: 'users',
+ *   where: [['lastLogin', '<', new Date('2024-01-01')]],
+ *   data: { isActive: false }
+ * });
+ * console.log(`${data?.changed} of ${data?.matched} users deactivated`);
+ *
+ * @example
+ * // Check which users would be deactivated
+ * const { data } = await updateWhere({
+ *   path: 'users',
+ *   where: [['lastLogin', '<', new Date('2024-01-01')]],
+ *   data: { isActive: false },
+ *   dryRun: true
+ * });
+ * console.log(data?.ids);
+ */
+export async function updateWhere<T extends object = DocumentData>(
+  options: UpdateWhereOptions<T>
+): Promise<Result<WhereWriteResult>> {
+  logger.debug("Called with options", options);
+
+  // Validate required parameters
+  if (!options.path) {
+    const error = new ValidationError(
+      "Path parameter is required for updateWhere"
+    );
+    reportError(error);
+    logger.error("Missing required parameter: path");
+    return { data: null, error, loading: false };
+  }
+
+  if (!options.data) {
+    const error = new ValidationError(
+      "Data parameter is required for updateWhere"
+    );
+    reportError(error);
+    logger.error("Missing required parameter: data");
+    return { data: null, error, loading: false };
+  }
+
+  const { path, data, dryRun = false, instance } = options;
+
+  try {
+    // The patch is the same for all documents, so it is validated once
+    const validationError = await validateWrite(
+      "update",
+      path,
+      undefined,
+      data,
+      true
+    );
+    if (validationError) {
+      reportError(validationError);
+      logger.error(validationError.message);
+      return { data: null, error: validationError, loading: false };
+    }
+
+    logger.info(
+      `${dryRun ? "Finding" : "Updating"} documents matching query at path: ${path}`
+    );
+    const { firestore } = getFirebaseInstance(instance);
+    const queryRef = buildQuery(
+      firestore,
+      { path, where: options.where, includeDeleted: options.includeDeleted },
+      logger
+    );
+
+    const summary: WhereWriteResult = { matched: 0, changed: 0, failed: 0 };
+    const ids: string[] = [];
+    let firstError: unknown = null;
+
+    await forEachQueryPage(
+      queryRef,
+      async (docs) => {
+        summary.matched += docs.length;
+        if (dryRun) {
+          ids.push(...docs.map((document) => document.id));
+          return;
+        }
+
+        const firestoreData = toFirestoreData(
+          applyTimestamps("update", path, data)
+        );
+        const writes: PreparedWrite[] = docs
+          .filter((document) => !isUnchanged(document.data(), data))
+          .map((document) => ({
+            type: "update",
+            ref: document.ref,
+            path,
+            data: firestoreData,
+          }));
+
+        const { committed, failed, error } = await commitWritesSettled(
+          firestore,
+          writes,
+          {
+            logger,
+            onCommitted: (chunk) =>
+              invalidateWrites(getCache(), chunk, instance),
+          }
+        );
+        summary.changed += committed;
+        summary.failed += failed;
+        firstError = firstError ?? error;
+      },
+      MAX_BATCH_SIZE
+    );
+
+    if (dryRun) {
+      logger.info(`Found ${summary.matched} matching documents`);
+      return { data: { ...summary, ids }, error: null, loading: false };
+    }
+
+    if (firstError) {
+      const structuredError = handleError(firstError);
+      reportError(structuredError);
+      logger.warn(`Failed to update ${summary.failed} documents`);
+      return { data: summary, error: structuredError, loading: false };
+    }
+
+    logger.info(
+      `Successfully updated ${summary.changed} of ${summary.matched} matching documents`
+    );
+    return { data: summary, error: null, loading: false };
+  } catch (error) {
+    // Convert to our structured error format
+    logger.error("Error updating documents", error);
+    const structuredError = handleError(error);
+    reportError(structuredError);
+    return { data: null, error: structuredError, loading: false };
+  }
+}
@@ -0,0 +1,189 @@
+import {
+  collection,
+  collectionGroup as collectionGroupQuery,
+  query,
+  where,
+  orderBy,
+  limit,
+  limitToLast,
+  startAfter,
+  startAt,
+  endBefore,
+  endAt,
+  documentId,
+  getDocs,
+  Firestore,
+  Query,
+  QueryDocumentSnapshot,
+} from "firebase/firestore";
+import {
+  GetOptions,
+  WhereFilterOp,
+  OrderByDirection,
+} from "../types";
+import { getSoftDeleteConfig } from "./softDelete";
+import { resolveCursor } from "../utils/cursors";
+import { Logger } from "../logging";
+
+/**
+ * Options used to build a collection query
+ */
+export interface QueryBuildOptions extends Omit<GetOptions, "docId"> {
+  /**
+   * Paginated mode - orders by document ID as the last sort key so cursors are unique,
+   * and fetches one extra document to detect whether another page exists
+   */
+  paginate?: boolean;
+}
+
+/**
+ * Validates options of a collection group query
+ * @returns Error message or null if the options are valid
+ */
+export function validateCollectionGroup(
+  options: Pick<GetOptions, "path" | "docId" | "collectionGroup">
+): string | null {
+  if (!options.collectionGroup) {
+    return null;
+  }
+  if (options.docId) {
+    return "DocId cannot be used with collectionGroup queries";
+  }
+  if (options.path.includes("/")) {
+    return "Path must be a collection ID without slashes for collectionGroup queries";
+  }
+  return null;
+}
+
+/**
+ * Returns true if the query pages backwards (ends at a cursor without a start cursor)
+ */
+export function isBackwardQuery(options: QueryBuildOptions): boolean {
+  return (
+    (options.endBefore !== undefined || options.endAt !== undefined) &&
+    options.startAfter === undefined &&
+    options.startAt === undefined
+  );
+}
+
+/**
+ * Builds a Firestore collection query from helper options
+ * @param firestore - Firestore instance
+ * @param options - Collection path (or collection ID for group queries), filters, sorting, limit and cursors
+ * @param logger - Logger of the calling operation
+ * @returns Firestore query
+ */
+export function buildQuery(
+  firestore: Firestore,
+  options: QueryBuildOptions,
+  logger?: Logger
+): Query {
+  const {
+    path,
+    where: whereOptions,
+    orderBy: orderByOptions,
+    limit: limitCount,
+    paginate = false,
+  } = options;
+
+  let queryRef: Query = options.collectionGroup
+    ? collectionGroupQuery(firestore, path)
+    : collection(firestore, path);
+
+  // Apply where conditions
+  if (whereOptions && whereOptions.length > 0) {
+    logger?.debug("Applying where filters", whereOptions);
+    whereOptions.forEach(([field, op, value]) => {
+      queryRef = query(queryRef, where(field, op as WhereFilterOp, value));
+    });
+  }
+
+  // Skip soft-deleted documents
+  const softDelete = options.includeDeleted ? null : getSoftDeleteConfig(path);
+  if (softDelete) {
+    logger?.debug(`Excluding documents with ${softDelete.field} set`);
+    queryRef = query(queryRef, where(softDelete.field, "==", null));
+  }
+
+  // Apply sorting
+  if (orderByOptions && orderByOptions.length > 0) {
+    logger?.debug("Applying orderBy", orderByOptions);
+    orderByOptions.forEach(([field, direction]) => {
+      queryRef = query(queryRef, orderBy(field, direction as OrderByDirection));
+    });
+  }
+
+  // Paginated cursors always end with the document ID
+  if (paginate) {
+    const lastDirection =
+      orderByOptions && orderByOptions.length > 0
+        ? orderByOptions[orderByOptions.length - 1][1]
+        : undefined;
+    queryRef = query(queryRef, orderBy(documentId(), lastDirection));
+  }
+
+  // Apply cursors
+  if (options.startAfter !== undefined) {
+    logger?.debug("Applying startAfter cursor");
+    queryRef = query(queryRef, startAfter(...resolveCursor(options.startAfter)));
+  }
+  if (options.startAt !== undefined) {
+    logger?.debug("Applying startAt cursor");
+    queryRef = query(queryRef, startAt(...resolveCursor(options.startAt)));
+  }
+  if (options.endBefore !== undefined) {
+    logger?.debug("Applying endBefore cursor");
+    queryRef = query(queryRef, endBefore(...resolveCursor(options.endBefore)));
+  }
+  if (options.endAt !== undefined) {
+    logger?.debug("Applying endAt cursor");
+    queryRef = query(queryRef, endAt(...resolveCursor(options.endAt)));
+  }
+
+  // Apply limit
+  if (limitCount) {
+    // In paginated mode fetch one extra document to detect another page
+    const fetchCount = paginate ? limitCount + 1 : limitCount;
+    logger?.debug(`Applying limit: ${fetchCount}`);
+    queryRef =
+      paginate && isBackwardQuery(options)
+        ? query(queryRef, limitToLast(fetchCount))
+        : query(queryRef, limit(fetchCount));
+  }
+
+  return queryRef;
+}
+
+/**
+ * Reads all documents of a query page by page
+ * Each page continues after the last document of the previous one, so documents
+ * changed or deleted by the handler do not shift the following pages.
+ *
+ * @param queryRef - Query to read (without a limit)
+ * @param handle - Called with the documents of each page
+ * @param pageSize - Number of documents per page
+ */
+export async function forEachQueryPage(
+  queryRef: Query,
+  handle: (docs: QueryDocumentSnapshot[]) => Promise<void>,
+  pageSize: number
+): Promise<void> {
+  let last: QueryDocumentSnapshot | null = null;
+
+  for (;;) {
+    const pageQuery: Query = last
+      ? query(queryRef, startAfter(last), limit(pageSize))
+      : query(queryRef, limit(pageSize));
+    const snapshot = await getDocs(pageQuery);
+    if (snapshot.docs.length === 0) {
+      return;
+    }
+
+    await handle(snapshot.docs);
+
+    if (snapshot.docs.length < pageSize) {
+      return;
+    }
+    last = snapshot.docs[snapshot.docs.length - 1];
+  }
+}
@@ -0,0 +1,150 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  limit,
+  query,
+  Firestore,
+} from "firebase/firestore";
+import { commitWrites, MAX_BATCH_SIZE, PreparedWrite } from "./batchWriter";
+import { matchPathPattern, splitDocumentPath } from "../utils/pathPattern";
+import { DeleteProgress } from "../types";
+import { createLogger, Logger } from "../logging";
+
+const defaultLogger = createLogger("recursiveDelete");
+
+interface RegisteredSubcollections {
+  pattern: string;
+  names: string[];
+}
+
+// Registered subcollections in the order they were registered
+let registrations: RegisteredSubcollections[] = [];
+
+/**
+ * Registers the subcollections of documents matching a path pattern
+ * Firestore client SDKs cannot list subcollections, so recursive deletes only
+ * delete subcollections that are registered (or passed as `subcollections`).
+ *
+ * @param pattern - Path pattern of the documents, e.g. `users/{uid}`
+ * @param names - IDs of the subcollections, e.g. `['sessions', 'posts']`
+ * @returns Function removing the registration again
+ *
+ * @example
+ * registerSubcollections('users/{uid}', ['sessions', 'posts']);
+ * registerSubcollections('users/{uid}/posts/{postId}', ['comments']);
+ *
+ * // Deletes the user, the sessions, the posts and the comments of the posts
+ * await removeDoc({ path: 'users', docId: 'user123', recursive: true });
+ */
+export function registerSubcollections(
+  pattern: string,
+  names: string[]
+): () => void {
+  const registered: RegisteredSubcollections = { pattern, names: [...names] };
+  registrations = [...registrations, registered];
+  defaultLogger.debug(`Registered subcollections of ${pattern}`, names);
+
+  return () => {
+    registrations = registrations.filter((item) => item !== registered);
+  };
+}
+
+/**
+ * Returns the registered subcollections of a document
+ * @param documentPath - Full path to the document
+ */
+export function getSubcollections(documentPath: string): string[] {
+  const { collectionPath, docId } = splitDocumentPath(documentPath);
+  const names = registrations
+    .filter(({ pattern }) => matchPathPattern(pattern, collectionPath, docId))
+    .reduce<string[]>((all, item) => all.concat(item.names), []);
+  return Array.from(new Set(names));
+}
+
+/**
+ * Options of a recursive delete
+ */
+export interface DeleteTreeOptions {
+  /** Subcollections of the root document (the registered ones if not specified) */
+  subcollections?: string[];
+  /** Called after each committed chunk of deletes */
+  onProgress?: (progress: DeleteProgress) => void;
+  /** Runs a Firestore call (with retries and time limits of the operation) */
+  run?: <R>(fn: () => Promise<R>) => Promise<R>;
+  /** Logger of the calling operation */
+  logger?: Logger;
+}
+
+/**
+ * Deletes a document together with its subcollections
+ * Documents are deleted depth-first in chunks of MAX_BATCH_SIZE, children before
+ * their parents, so an interrupted delete can be repeated to finish it.
+ *
+ * @param firestore - Firestore instance
+ * @param documentPath - Full path to the root document
+ * @param options - Options of the delete
+ * @returns Number of deleted documents, including the root document
+ */
+export async function deleteTree(
+  firestore: Firestore,
+  documentPath: string,
+  options: DeleteTreeOptions = {}
+): Promise<number> {
+  const { onProgress, run = (fn) => fn(), logger = defaultLogger } = options;
+  let deleted = 0;
+
+  const deleteSubcollections = async (
+    parentPath: string,
+    names: string[]
+  ): Promise<void> => {
+    for (const name of names) {
+      const collectionPath = `${parentPath}/${name}`;
+      const pageQuery = query(
+        collection(firestore, collectionPath),
+        limit(MAX_BATCH_SIZE)
+      );
+
+      // Deleted documents drop out of the query, so always read the first page
+      for (;;) {
+        const snapshot = await run(() => getDocs(pageQuery));
+        if (snapshot.docs.length === 0) {
+          break;
+        }
+
+        for (const document of snapshot.docs) {
+          const childPath = `${collectionPath}/${document.id}`;
+          await deleteSubcollections(childPath, getSubcollections(childPath));
+        }
+
+        const writes: PreparedWrite[] = snapshot.docs.map((document) => ({
+          type: "delete",
+          ref: document.ref,
+          path: collectionPath,
+        }));
+        await run(() => commitWrites(firestore, writes, { logger }));
+
+        deleted += writes.length;
+        logger.debug(`Deleted ${writes.length} documents in ${collectionPath}`);
+        onProgress?.({ deleted, path: collectionPath });
+
+        if (snapshot.docs.length < MAX_BATCH_SIZE) {
+          break;
+        }
+      }
+    }
+  };
+
+  await deleteSubcollections(
+    documentPath,
+    options.subcollections ?? getSubcollections(documentPath)
+  );
+
+  const { collectionPath } = splitDocumentPath(documentPath);
+  await run(() => deleteDoc(doc(firestore, documentPath)));
+  deleted += 1;
+  onProgress?.({ deleted, path: collectionPath });
+
+  return deleted;
+}
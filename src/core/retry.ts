@@ -0,0 +1,129 @@
+import {
+  AbortedError,
+  handleError,
+  NetworkError,
+  ResourceExhaustedError,
+  TimeoutError,
+} from "../errors";
+import { createLogger, Logger } from "../logging";
+import { RetryOptions, RetryPolicy } from "../types";
+
+const defaultLogger = createLogger("retry");
+
+/**
+ * Default retry policy - transient errors are retried up to 3 attempts in total
+ */
+export const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 100,
+  maxDelayMs: 5000,
+  jitter: true,
+  retryOn: [NetworkError, TimeoutError, AbortedError, ResourceExhaustedError],
+  retryNonIdempotent: false,
+};
+
+// Current global retry policy
+let retryPolicy: RetryPolicy = { ...defaultRetryPolicy };
+
+/**
+ * Configures the global retry policy
+ * @param policy - Parts of the policy to change
+ *
+ * @example
+ * // Retry up to 5 times, starting with a 200 ms delay
+ * configureRetry({ maxAttempts: 5, baseDelayMs: 200 });
+ *
+ * // Disable retries
+ * configureRetry({ maxAttempts: 1 });
+ */
+export function configureRetry(policy: Partial<RetryPolicy>): void {
+  retryPolicy = { ...retryPolicy, ...policy };
+}
+
+/**
+ * Returns the current global retry policy
+ */
+export function getRetryPolicy(): RetryPolicy {
+  return { ...retryPolicy };
+}
+
+/**
+ * Resets the global retry policy to the defaults
+ */
+export function resetRetryPolicy(): void {
+  retryPolicy = { ...defaultRetryPolicy };
+}
+
+/**
+ * Calculates the delay before the next attempt (exponential backoff)
+ * @param attempt - Number of the failed attempt (starting at 1)
+ * @param policy - Retry policy
+ */
+export function getRetryDelay(attempt: number, policy: RetryPolicy): number {
+  const delay = Math.min(
+    policy.baseDelayMs * 2 ** (attempt - 1),
+    policy.maxDelayMs
+  );
+  // Full jitter - a random delay between 0 and the exponential delay
+  return policy.jitter ? Math.round(Math.random() * delay) : delay;
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs a Firestore call and retries it while it fails with a retryable error
+ * The last error is rethrown, so the operation handles it as a single failure.
+ * A TimeoutError of withTimeout is never retried - a timed-out attempt ends the
+ * operation. Firestore's own deadline-exceeded errors are retried.
+ *
+ * @param operation - Name of the operation (used in log messages)
+ * @param fn - Firestore call to run
+ * @param options.retry - Per-call retry option
+ * @param options.idempotent - Whether repeating the call is safe (default true)
+ * @param options.logger - Logger of the calling operation
+ * @returns Value returned by the call
+ */
+export async function withRetry<T>(
+  operation: string,
+  fn: () => Promise<T>,
+  options: {
+    retry?: RetryOptions;
+    idempotent?: boolean;
+    logger?: Logger;
+  } = {}
+): Promise<T> {
+  const { retry, idempotent = true, logger = defaultLogger } = options;
+  const policy: RetryPolicy =
+    retry === false
+      ? { ...retryPolicy, maxAttempts: 1 }
+      : { ...retryPolicy, ...retry };
+  const maxAttempts =
+    idempotent || policy.retryNonIdempotent ? policy.maxAttempts : 1;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      logger.debug(`${operation}: attempt ${attempt}/${maxAttempts}`);
+      return await fn();
+    } catch (error) {
+      const structuredError = handleError(error);
+      // The time limit of the caller has passed, so another attempt is not awaited
+      const timedOut =
+        structuredError instanceof TimeoutError &&
+        structuredError.timeoutMs !== undefined;
+      const retryable =
+        !timedOut &&
+        policy.retryOn.some((ErrorType) => structuredError instanceof ErrorType);
+
+      if (!retryable || attempt >= maxAttempts) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(attempt, policy);
+      logger.warn(
+        `${operation}: attempt ${attempt}/${maxAttempts} failed with ${structuredError.name}, retrying in ${delay} ms`
+      );
+      await sleep(delay);
+    }
+  }
+}
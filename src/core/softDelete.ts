@@ -0,0 +1,144 @@
+import { createCollectionConfig } from "./collectionConfig";
+import { FieldTransform, serverTimestamp } from "../utils/fieldTransforms";
+import { CacheManager } from "../cache/cacheManager";
+import { createLogger } from "../logging";
+
+const logger = createLogger("softDelete");
+
+export interface SoftDeleteConfig {
+  /**
+   * Name of the field marking deleted documents with the time of deletion
+   * Default: "deletedAt"
+   */
+  field?: string;
+  /**
+   * Whether to mark deleted documents with a server timestamp instead of the local time
+   * Default: false
+   */
+  serverTimestamp?: boolean;
+}
+
+/**
+ * Default soft delete options
+ */
+export const defaultSoftDeleteConfig: Required<SoftDeleteConfig> = {
+  field: "deletedAt",
+  serverTimestamp: false,
+};
+
+const softDeleteConfig = createCollectionConfig(defaultSoftDeleteConfig);
+
+/**
+ * Enables soft delete, globally or for a collection
+ * removeDoc then sets the deletedAt field instead of deleting the document, and
+ * get and listen skip documents with the field set (unless includeDeleted is true).
+ *
+ * Existing documents must be migrated first: list reads, aggregations and
+ * updateWhere/deleteWhere filter on `deletedAt == null`, which only matches
+ * documents that have the field. create writes `deletedAt: null` to new documents,
+ * documents written before soft delete was enabled are hidden from those queries
+ * until backfillDeleted adds the field.
+ *
+ * Cached results were read with the previous configuration,
+ * so the cache is cleared whenever the configuration changes.
+ *
+ * @param config - true to enable with the current (or default) options, false to disable, or options
+ * @param pattern - Optional path pattern of the collection, e.g. `orgs/{orgId}/members`
+ *
+ * @example
+ * // Enable for all collections
+ * configureSoftDelete(true);
+ *
+ * // Custom marker field for one collection
+ * configureSoftDelete({ field: 'removedAt' }, 'orgs/{orgId}/members');
+ */
+export function configureSoftDelete(
+  config: SoftDeleteConfig | boolean,
+  pattern?: string
+): void {
+  const updated = softDeleteConfig.configure(config, pattern);
+  logger.info(
+    `Soft delete configuration${pattern ? ` of ${pattern}` : ""} updated`,
+    updated
+  );
+  if (updated) {
+    logger.warn(
+      `Documents without the ${updated.field} field are hidden from queries${pattern ? ` of ${pattern}` : ""} - run backfillDeleted on collections with existing documents`
+    );
+  }
+  CacheManager.getInstance().clear();
+}
+
+/**
+ * Returns the soft delete configuration of a collection
+ * @param path - Optional path to the collection (the global configuration if not specified)
+ * @returns The configuration, or null if soft delete is disabled
+ */
+export function getSoftDeleteConfig(
+  path?: string
+): Required<SoftDeleteConfig> | null {
+  return softDeleteConfig.get(path);
+}
+
+/**
+ * Disables soft delete and removes all collection configurations
+ */
+export function resetSoftDelete(): void {
+  softDeleteConfig.reset();
+}
+
+/**
+ * Resolves whether a delete is a soft delete
+ * @param path - Path to the collection
+ * @param soft - Per-call soft option (true forces a soft delete, false a hard delete)
+ * @returns The soft delete configuration to use, or null for a hard delete
+ */
+export function resolveSoftDelete(
+  path: string,
+  soft?: boolean
+): Required<SoftDeleteConfig> | null {
+  if (soft === false) {
+    return null;
+  }
+  const config = getSoftDeleteConfig(path);
+  return config ?? (soft ? { ...defaultSoftDeleteConfig } : null);
+}
+
+/**
+ * Returns the update marking a document as deleted now
+ */
+export function createDeletedData(
+  config: Required<SoftDeleteConfig>
+): Record<string, Date | FieldTransform> {
+  return {
+    [config.field]: config.serverTimestamp ? serverTimestamp() : new Date(),
+  };
+}
+
+/**
+ * Adds the empty deletedAt field to a created or overwritten document, so reads
+ * filtering on `deletedAt == null` match it
+ * @param path - Path to the collection
+ * @param data - Data to write
+ * @returns Data with the field (the data itself if soft delete is disabled)
+ */
+export function applyDeletedField<T extends object>(path: string, data: T): T {
+  const config = getSoftDeleteConfig(path);
+  if (!config || config.field in data) {
+    return data;
+  }
+  return { ...data, [config.field]: null };
+}
+
+/**
+ * Returns true if a document read from a soft-delete collection is marked as deleted
+ * @param path - Path to the collection
+ * @param data - Raw document data
+ */
+export function isSoftDeleted(
+  path: string,
+  data: Record<string, any> | undefined
+): boolean {
+  const config = getSoftDeleteConfig(path);
+  return !!config && data?.[config.field] != null;
+}
@@ -0,0 +1,79 @@
+import { TimeoutError } from "../errors";
+
+export interface TimeoutConfig {
+  /**
+   * Default time limit of a single Firestore call in milliseconds
+   * Default: 0 (no time limit)
+   */
+  timeoutMs?: number;
+}
+
+// Current global timeout configuration
+let timeoutConfig: Required<TimeoutConfig> = { timeoutMs: 0 };
+
+/**
+ * Configures the default time limit of Firestore calls
+ * @param config - Timeout configuration
+ *
+ * @example
+ * // Fail operations that take longer than 10 seconds
+ * configureTimeout({ timeoutMs: 10000 });
+ */
+export function configureTimeout(config: TimeoutConfig): void {
+  timeoutConfig = { ...timeoutConfig, ...config };
+}
+
+/**
+ * Returns the current timeout configuration
+ */
+export function getTimeoutConfig(): Required<TimeoutConfig> {
+  return { ...timeoutConfig };
+}
+
+/**
+ * Races a Firestore call against a time limit
+ * Firestore calls cannot be cancelled - a call that times out keeps running
+ * in the background (a write is still applied once the client is back online),
+ * but its result is ignored. The TimeoutError is not retried by withRetry, so
+ * a timed-out attempt ends the operation and a write is not sent again.
+ *
+ * @param operation - Name of the operation (used in the error message)
+ * @param fn - Firestore call to run
+ * @param timeoutMs - Time limit in milliseconds (defaults to the global configuration, 0 disables it)
+ * @returns Value returned by the call
+ * @throws {TimeoutError} If the call does not settle in time
+ */
+export async function withTimeout<T>(
+  operation: string,
+  fn: () => Promise<T>,
+  timeoutMs: number = timeoutConfig.timeoutMs
+): Promise<T> {
+  if (!timeoutMs || timeoutMs <= 0) {
+    return fn();
+  }
+
+  const call = fn();
+  // The call may still fail after the timeout - nobody waits for it anymore
+  call.catch(() => undefined);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () =>
+        reject(
+          new TimeoutError(
+            `${operation} timed out after ${timeoutMs} ms`,
+            undefined,
+            timeoutMs
+          )
+        ),
+      timeoutMs
+    );
+  });
+
+  try {
+    return await Promise.race([call, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,121 @@
+import { createCollectionConfig } from "./collectionConfig";
+import { FieldTransform, serverTimestamp } from "../utils/fieldTransforms";
+import { createLogger } from "../logging";
+
+const logger = createLogger("timestamps");
+
+export interface TimestampsConfig {
+  /**
+   * Name of the field holding the creation time, or false to not write it
+   * Default: "createdAt"
+   */
+  createdAt?: string | false;
+  /**
+   * Name of the field holding the time of the last write, or false to not write it
+   * Default: "updatedAt"
+   */
+  updatedAt?: string | false;
+  /**
+   * Whether to write server timestamps instead of the local time
+   * Default: false
+   */
+  serverTimestamp?: boolean;
+}
+
+/**
+ * Default timestamp fields
+ */
+export const defaultTimestampsConfig: Required<TimestampsConfig> = {
+  createdAt: "createdAt",
+  updatedAt: "updatedAt",
+  serverTimestamp: false,
+};
+
+const timestampsConfig = createCollectionConfig(defaultTimestampsConfig);
+
+/**
+ * Enables automatic createdAt/updatedAt fields, globally or for a collection
+ * create writes both fields, update writes only updatedAt. Fields already present
+ * in the written data are kept.
+ *
+ * @param config - true to enable with the current (or default) fields, false to disable, or field options
+ * @param pattern - Optional path pattern of the collection, e.g. `orgs/{orgId}/members`
+ *
+ * @example
+ * // Enable for all collections
+ * configureTimestamps(true);
+ *
+ * // Server timestamps with custom field names for one collection
+ * configureTimestamps(
+ *   { createdAt: 'created', updatedAt: 'modified', serverTimestamp: true },
+ *   'orgs/{orgId}/members'
+ * );
+ *
+ * // Disable for a collection
+ * configureTimestamps(false, 'logs');
+ */
+export function configureTimestamps(
+  config: TimestampsConfig | boolean,
+  pattern?: string
+): void {
+  const updated = timestampsConfig.configure(config, pattern);
+  logger.info(
+    `Timestamps configuration${pattern ? ` of ${pattern}` : ""} updated`,
+    updated
+  );
+}
+
+/**
+ * Returns the timestamps configuration of a collection
+ * @param path - Optional path to the collection (the global configuration if not specified)
+ * @returns The configuration, or null if timestamps are disabled
+ */
+export function getTimestampsConfig(
+  path?: string
+): Required<TimestampsConfig> | null {
+  return timestampsConfig.get(path);
+}
+
+/**
+ * Disables timestamps and removes all collection configurations
+ */
+export function resetTimestamps(): void {
+  timestampsConfig.reset();
+}
+
+/**
+ * Adds the timestamp fields of a write to its data
+ * @param operation - Write operation (create writes both fields, update only updatedAt)
+ * @param path - Path to the collection
+ * @param data - Data to write
+ * @returns Data with the timestamp fields (the data itself if timestamps are disabled)
+ */
+export function applyTimestamps<T extends object>(
+  operation: "create" | "update",
+  path: string,
+  data: T
+): T {
+  const config = getTimestampsConfig(path);
+  if (!config) {
+    return data;
+  }
+
+  const now = new Date();
+  const value = (): Date | FieldTransform =>
+    config.serverTimestamp ? serverTimestamp() : now;
+
+  const fields = [
+    operation === "create" ? config.createdAt : false,
+    config.updatedAt,
+  ].filter((field): field is string => !!field && !(field in data));
+
+  if (fields.length === 0) {
+    return data;
+  }
+
+  const stamped = { ...data } as Record<string, unknown>;
+  fields.forEach((field) => {
+    stamped[field] = value();
+  });
+  return stamped as T;
+}
@@ -0,0 +1,366 @@
+import { ValidationError, ValidationIssue } from "../errors";
+import { FieldTransform } from "../utils/fieldTransforms";
+import { matchPathPattern, splitDocumentPath } from "../utils/pathPattern";
+import { createLogger } from "../logging";
+
+const logger = createLogger("validation");
+
+/**
+ * Minimal shape of a Standard Schema (https://standardschema.dev) object
+ * Implemented by Zod, Valibot, ArkType and other schema libraries
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+type StandardSchemaPath = ReadonlyArray<
+  PropertyKey | { readonly key: PropertyKey }
+>;
+
+type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | {
+      readonly issues: ReadonlyArray<{
+        readonly message: string;
+        readonly path?: StandardSchemaPath;
+      }>;
+    };
+
+/**
+ * Information about the validated document
+ */
+export interface ValidatorContext {
+  /** Operation that triggered the validation */
+  operation: "create" | "update" | "read";
+  /** Path to the collection */
+  path: string;
+  /** ID of the document (missing for documents created with an auto-generated ID) */
+  docId?: string;
+  /** Values of the placeholders in the matched pattern */
+  params: Record<string, string>;
+  /** Whether the data is a partial update (only the changed fields) */
+  partial: boolean;
+}
+
+/**
+ * Problem reported by a validation function - a message, or a message with a field path
+ */
+export type ValidatorIssue =
+  | string
+  | { message: string; path?: Array<string | number> };
+
+/**
+ * Plain validation function
+ * Returns the problems found in the data. An empty array (or nothing) means the data is valid.
+ */
+export type ValidateFunction<T = any> = (
+  data: T,
+  context: ValidatorContext
+) => ValidatorIssue[] | void | Promise<ValidatorIssue[] | void>;
+
+/**
+ * Validator of a collection - a plain function or a Standard Schema object
+ */
+export type Validator<T = any> = ValidateFunction<T> | StandardSchemaV1;
+
+export interface ValidatorOptions {
+  /**
+   * Whether to validate documents when they are read (get and listen)
+   * Only synchronous validators are supported on read.
+   * Default: false
+   */
+  validateOnRead?: boolean;
+}
+
+interface RegisteredValidator {
+  pattern: string;
+  validator: Validator;
+  validateOnRead: boolean;
+}
+
+// Registered validators in the order they were registered
+let validators: RegisteredValidator[] = [];
+
+/**
+ * Registers a validator for documents matching a path pattern
+ * Data is validated before it is written by create, update and batches, and by
+ * transactions (synchronous validators only). Updates that merge only report
+ * issues of the fields they change, and fields set to a field transform
+ * (increment(), serverTimestamp(), ...) are never reported.
+ *
+ * @param pattern - Path pattern of the documents, e.g. `users/{uid}`
+ * @param validator - Validation function or Standard Schema object (Zod, Valibot, ...)
+ * @param options - Validator options
+ * @returns Function removing the validator again
+ *
+ * @example
+ * // Zod schema (implements Standard Schema)
+ * registerValidator('users/{uid}', z.object({ name: z.string(), age: z.number() }));
+ *
+ * @example
+ * // Plain function
+ * registerValidator('orgs/{orgId}/members/{uid}', (member) =>
+ *   member.role === 'admin' || member.role === 'member'
+ *     ? []
+ *     : [{ path: ['role'], message: 'Unknown role' }]
+ * );
+ */
+export function registerValidator<T = any>(
+  pattern: string,
+  validator: Validator<T>,
+  options: ValidatorOptions = {}
+): () => void {
+  const registered: RegisteredValidator = {
+    pattern,
+    validator,
+    validateOnRead: options.validateOnRead ?? false,
+  };
+  validators = [...validators, registered];
+  logger.debug(`Registered validator for ${pattern}`);
+
+  return () => {
+    validators = validators.filter((item) => item !== registered);
+  };
+}
+
+function isStandardSchema(
+  validator: Validator
+): validator is StandardSchemaV1 {
+  return typeof validator === "object" && "~standard" in validator;
+}
+
+/**
+ * Converts issues of a validator to ValidationIssues
+ */
+function normalizeIssues(
+  issues: ReadonlyArray<
+    | string
+    | {
+        message: string;
+        path?: StandardSchemaPath;
+      }
+  >
+): ValidationIssue[] {
+  return issues.map((issue) => {
+    if (typeof issue === "string") {
+      return { message: issue, path: [] };
+    }
+    return {
+      message: issue.message,
+      path: (issue.path ?? []).map((segment) => {
+        const key = typeof segment === "object" ? segment.key : segment;
+        return typeof key === "number" ? key : String(key);
+      }),
+    };
+  });
+}
+
+/**
+ * Runs a validator and returns its issues (or a promise of them)
+ */
+function runValidator(
+  validator: Validator,
+  data: unknown,
+  context: ValidatorContext
+): ValidationIssue[] | Promise<ValidationIssue[]> {
+  if (isStandardSchema(validator)) {
+    const result = validator["~standard"].validate(data);
+    return result instanceof Promise
+      ? result.then((resolved) => normalizeIssues(resolved.issues ?? []))
+      : normalizeIssues(result.issues ?? []);
+  }
+
+  const result = validator(data, context);
+  return result instanceof Promise
+    ? result.then((resolved) => normalizeIssues(resolved ?? []))
+    : normalizeIssues(result ?? []);
+}
+
+/**
+ * Returns the value at a field path
+ */
+function getValueAtPath(data: unknown, path: Array<string | number>): unknown {
+  return path.reduce<unknown>(
+    (value, key) =>
+      value !== null && typeof value === "object"
+        ? (value as Record<string | number, unknown>)[key]
+        : undefined,
+    data
+  );
+}
+
+/**
+ * Drops issues that do not apply to the written data
+ */
+function filterWriteIssues(
+  issues: ValidationIssue[],
+  data: Record<string, any>,
+  partial: boolean
+): ValidationIssue[] {
+  return issues.filter((issue) => {
+    // Field transforms are resolved by the server
+    if (
+      issue.path.length > 0 &&
+      getValueAtPath(data, issue.path) instanceof FieldTransform
+    ) {
+      return false;
+    }
+    // Partial updates only report issues of the changed fields
+    if (partial && issue.path.length > 0) {
+      const field = String(issue.path[0]);
+      return Object.keys(data).some(
+        (key) => key === field || key.startsWith(`${field}.`)
+      );
+    }
+    return true;
+  });
+}
+
+/**
+ * Creates the ValidationError of a document
+ */
+function createValidationError(
+  documentPath: string,
+  issues: ValidationIssue[]
+): ValidationError {
+  const details = issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message
+    )
+    .join("; ");
+  return new ValidationError(
+    `Validation failed for ${documentPath}: ${details}`,
+    undefined,
+    issues
+  );
+}
+
+/**
+ * Validates data before it is written
+ * @param operation - Write operation
+ * @param path - Path to the collection
+ * @param docId - Optional ID of the document
+ * @param data - Data to write
+ * @param partial - Whether the data is a partial update
+ * @returns ValidationError with the issues, or null if the data is valid
+ */
+export async function validateWrite(
+  operation: "create" | "update",
+  path: string,
+  docId: string | undefined,
+  data: Record<string, any>,
+  partial: boolean
+): Promise<ValidationError | null> {
+  const issues: ValidationIssue[] = [];
+
+  for (const { pattern, validator } of validators) {
+    const params = matchPathPattern(pattern, path, docId);
+    if (!params) {
+      continue;
+    }
+
+    const context = { operation, path, docId, params, partial };
+    const validatorIssues = await runValidator(validator, data, context);
+    issues.push(...filterWriteIssues(validatorIssues, data, partial));
+  }
+
+  return issues.length > 0
+    ? createValidationError(docId ? `${path}/${docId}` : path, issues)
+    : null;
+}
+
+/**
+ * Validates data before it is written in a transaction
+ * Transaction writes are queued synchronously, so only synchronous validators
+ * are run - asynchronous ones are skipped with a warning.
+ *
+ * @param operation - Write operation
+ * @param path - Path to the collection
+ * @param docId - Optional ID of the document
+ * @param data - Data to write
+ * @param partial - Whether the data is a partial update
+ * @returns ValidationError with the issues, or null if the data is valid
+ */
+export function validateWriteSync(
+  operation: "create" | "update",
+  path: string,
+  docId: string | undefined,
+  data: Record<string, any>,
+  partial: boolean
+): ValidationError | null {
+  const issues: ValidationIssue[] = [];
+  const documentPath = docId ? `${path}/${docId}` : path;
+
+  for (const { pattern, validator } of validators) {
+    const params = matchPathPattern(pattern, path, docId);
+    if (!params) {
+      continue;
+    }
+
+    const context = { operation, path, docId, params, partial };
+    const validatorIssues = runValidator(validator, data, context);
+    if (validatorIssues instanceof Promise) {
+      validatorIssues.catch(() => undefined);
+      logger.warn(
+        `Skipping asynchronous validator of ${pattern} when writing ${documentPath} in a transaction`
+      );
+      continue;
+    }
+    issues.push(...filterWriteIssues(validatorIssues, data, partial));
+  }
+
+  return issues.length > 0 ? createValidationError(documentPath, issues) : null;
+}
+
+/**
+ * Validates a document that was read, if a validator with validateOnRead matches
+ * @param documentPath - Full path to the document
+ * @param data - Document data
+ * @throws {ValidationError} If the document is invalid
+ */
+export function validateRead(documentPath: string, data: unknown): void {
+  const readValidators = validators.filter((item) => item.validateOnRead);
+  if (readValidators.length === 0) {
+    return;
+  }
+
+  const { collectionPath, docId } = splitDocumentPath(documentPath);
+  const issues: ValidationIssue[] = [];
+
+  for (const { pattern, validator } of readValidators) {
+    const params = matchPathPattern(pattern, collectionPath, docId);
+    if (!params) {
+      continue;
+    }
+
+    const context = {
+      operation: "read" as const,
+      path: collectionPath,
+      docId,
+      params,
+      partial: false,
+    };
+    const validatorIssues = runValidator(validator, data, context);
+    if (validatorIssues instanceof Promise) {
+      validatorIssues.catch(() => undefined);
+      logger.warn(
+        `Skipping asynchronous validator of ${pattern} when reading ${documentPath}`
+      );
+      continue;
+    }
+    issues.push(...validatorIssues);
+  }
+
+  if (issues.length > 0) {
+    throw createValidationError(documentPath, issues);
+  }
+}
@@ -31,11 +31,27 @@ export class InitializationError extends FirestoreHelperError {
   }
 }
 
+// Field-level detail of a failed validation
+export interface ValidationIssue {
+  /** Description of the problem */
+  message: string;
+  /** Path to the invalid field (empty for issues of the whole document) */
+  path: Array<string | number>;
+}
+
 // Validation errors
 export class ValidationError extends FirestoreHelperError {
-  constructor(message: string, originalError?: Error) {
+  /** Field-level details when document data failed schema validation */
+  issues?: ValidationIssue[];
+
+  constructor(
+    message: string,
+    originalError?: Error,
+    issues?: ValidationIssue[]
+  ) {
     super(message, "validation_error", originalError);
     this.name = "ValidationError";
+    this.issues = issues;
   }
 }
 
@@ -73,12 +89,95 @@ export class NetworkError extends FirestoreHelperError {
 
 // Timeout errors
 export class TimeoutError extends FirestoreHelperError {
-  constructor(message: string, originalError?: Error) {
+  /** Time limit that expired, when the error comes from the timeoutMs option (not from Firestore) */
+  timeoutMs?: number;
+
+  constructor(message: string, originalError?: Error, timeoutMs?: number) {
     super(message, "timeout", originalError);
     this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// Document already exists errors
+export class AlreadyExistsError extends FirestoreHelperError {
+  constructor(message: string, originalError?: Error) {
+    super(message, "already_exists", originalError);
+    this.name = "AlreadyExistsError";
+  }
+}
+
+// Failed precondition errors (e.g. a missing composite index)
+export class FailedPreconditionError extends FirestoreHelperError {
+  /** URL for creating the missing composite index, if the query needs one */
+  indexUrl?: string;
+
+  constructor(message: string, originalError?: Error) {
+    super(message, "failed_precondition", originalError);
+    this.name = "FailedPreconditionError";
+    this.indexUrl = extractIndexUrl(message);
+  }
+}
+
+// Quota or rate limit errors
+export class ResourceExhaustedError extends FirestoreHelperError {
+  constructor(message: string, originalError?: Error) {
+    super(message, "resource_exhausted", originalError);
+    this.name = "ResourceExhaustedError";
   }
 }
 
+// Aborted errors (e.g. transaction contention)
+export class AbortedError extends FirestoreHelperError {
+  constructor(message: string, originalError?: Error) {
+    super(message, "aborted", originalError);
+    this.name = "AbortedError";
+  }
+}
+
+/**
+ * Extracts the index creation URL from a Firestore "query requires an index" message
+ * @param message - Error message
+ * @returns URL of the Firebase console page creating the index, if present
+ */
+export function extractIndexUrl(message: string): string | undefined {
+  const match = message.match(
+    /https:\/\/console\.firebase\.google\.com\/\S+/
+  );
+  return match ? match[0] : undefined;
+}
+
+type ErrorClass = new (
+  message: string,
+  originalError?: Error
+) => FirestoreHelperError;
+
+// Mapping of FirebaseError codes to our error types
+const firebaseErrorCodes: Record<string, ErrorClass> = {
+  "permission-denied": PermissionError,
+  unauthenticated: PermissionError,
+  "not-found": NotFoundError,
+  "already-exists": AlreadyExistsError,
+  "failed-precondition": FailedPreconditionError,
+  "resource-exhausted": ResourceExhaustedError,
+  aborted: AbortedError,
+  unavailable: NetworkError,
+  "deadline-exceeded": TimeoutError,
+  "invalid-argument": ValidationError,
+  "out-of-range": ValidationError,
+};
+
+/**
+ * Returns the code of a FirebaseError without the service prefix (e.g. "firestore/")
+ */
+function getFirebaseErrorCode(error: Error): string | null {
+  const code = (error as { code?: unknown }).code;
+  if (typeof code !== "string") {
+    return null;
+  }
+  return code.slice(code.indexOf("/") + 1);
+}
+
 // Error reporting utility
 import { logError } from "./logging";
 
@@ -99,6 +198,20 @@ export function handleError(error: unknown): FirestoreHelperError {
   if (error instanceof Error) {
     const errorMessage = error.message || "Unknown error occurred";
 
+    // FirebaseError carries a code, which is more reliable than the message
+    const code = getFirebaseErrorCode(error);
+    if (code && firebaseErrorCodes[code]) {
+      return new firebaseErrorCodes[code](errorMessage, error);
+    }
+    if (code && error.name === "FirebaseError") {
+      // Keep unmapped Firebase codes (e.g. "cancelled", "internal") instead of losing them
+      return new FirestoreHelperError(
+        errorMessage,
+        code.replace(/-/g, "_"),
+        error
+      );
+    }
+
     // Check for common Firebase error patterns and convert to appropriate types
     if (
       errorMessage.includes("permission_denied") ||
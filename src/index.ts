@@ -6,7 +6,9 @@
 export {
   initializeFirebase as initialize,
   getFirebaseInstance,
+  getInstanceNames,
   resetFirebase as reset,
+  DEFAULT_INSTANCE,
 } from "./core/firebase";
 
 // Core operations with aliases
@@ -17,12 +19,118 @@ export {
   deleteData as removeDoc,
 } from "./core/operations";
 
+// Bulk create
+export { createMany } from "./core/operations/createMany";
+
+// Writes to all documents matching a query
+export { updateWhere } from "./core/operations/updateWhere";
+export { deleteWhere } from "./core/operations/deleteWhere";
+
+// Soft delete
+export { restoreData as restore } from "./core/operations/restoreData";
+export { purgeDeleted } from "./core/operations/purgeDeleted";
+export { backfillDeleted } from "./core/operations/backfillDeleted";
+export { configureSoftDelete, getSoftDeleteConfig } from "./core/softDelete";
+export type { SoftDeleteConfig } from "./core/softDelete";
+
+// Recursive delete
+export { registerSubcollections } from "./core/recursiveDelete";
+
+// Aggregation queries
+export { aggregateData as aggregate } from "./core/operations/aggregateData";
+
 // Export listenData separately since it's in its own file
 export { listenData as listen } from "./core/operations/listenData";
+export {
+  listActiveListeners,
+  unsubscribeAll,
+} from "./core/listenerRegistry";
+export {
+  listenIterable,
+  listenObservable,
+} from "./core/operations/listenStreams";
+export type {
+  ListenStreamOptions,
+  ListenObservable,
+  ListenObserver,
+  ListenSubscription,
+} from "./core/operations/listenStreams";
+
+// Batched writes
+export { batchData as batch } from "./core/operations/batch";
+export type { WriteBatchHelper } from "./core/operations/batch";
+
+// Transactions
+export { transactionData as transaction } from "./core/operations/transaction";
+export type {
+  TransactionHelper,
+  TransactionGetOptions,
+  TransactionOptions,
+} from "./core/operations/transaction";
 
 // Utility functions
 export { formatDocument, formatCollection } from "./utils/formatters";
 
+// Value conversion
+export {
+  configureConversion,
+  getConversionConfig,
+} from "./utils/conversion";
+
+// Middleware
+export { use } from "./core/middleware";
+export type {
+  Middleware,
+  MiddlewareContext,
+  MiddlewareNext,
+  MiddlewareOutput,
+  OperationName,
+} from "./core/middleware";
+
+// Schema validation
+export { registerValidator } from "./core/validation";
+export type {
+  Validator,
+  ValidateFunction,
+  ValidatorContext,
+  ValidatorIssue,
+  ValidatorOptions,
+  StandardSchemaV1,
+} from "./core/validation";
+
+// Typed collections
+export { defineCollection } from "./core/collection";
+export type {
+  CollectionHandle,
+  PathParamNames,
+  PathParams,
+  PathParamsOption,
+  PlaceholderTemplate,
+  WithId,
+} from "./core/collection";
+
+// Retry policy
+export { configureRetry, getRetryPolicy } from "./core/retry";
+
+// Timeouts
+export { configureTimeout, getTimeoutConfig } from "./core/timeout";
+export type { TimeoutConfig } from "./core/timeout";
+
+// Automatic timestamps
+export { configureTimestamps, getTimestampsConfig } from "./core/timestamps";
+export type { TimestampsConfig } from "./core/timestamps";
+
+// Field transforms
+export {
+  FieldTransform,
+  increment,
+  arrayUnion,
+  arrayRemove,
+  serverTimestamp,
+  deleteField,
+} from "./utils/fieldTransforms";
+export type { FieldTransformType } from "./utils/fieldTransforms";
+
 // Error handling
 export {
   FirestoreHelperError,
@@ -33,9 +141,14 @@ export {
   PermissionError,
   NetworkError,
   TimeoutError,
+  AlreadyExistsError,
+  FailedPreconditionError,
+  ResourceExhaustedError,
+  AbortedError,
   handleError,
   reportError,
 } from "./errors";
+export type { ValidationIssue } from "./errors";
 
 // Logging system
 export {
@@ -58,8 +171,32 @@ export type {
   GetOptions,
   UpdateOptions,
   DeleteOptions,
+  RestoreOptions,
+  PurgeDeletedOptions,
+  PurgeResult,
+  BackfillDeletedOptions,
+  BackfillResult,
+  DeleteProgress,
+  CreateManyOptions,
+  CreateManyItemResult,
+  CreateManyResult,
+  WhereWriteOptions,
+  UpdateWhereOptions,
+  DeleteWhereOptions,
+  WhereWriteResult,
   ListenOptions,
+  ActiveListener,
+  DocumentChangeType,
+  DocumentChangeEvent,
+  InitializeOptions,
+  InstanceOptions,
+  RetryPolicy,
+  RetryOptions,
+  TimeoutOptions,
   Result,
+  SnapshotMetadata,
+  QueryCursor,
+  PaginatedData,
   WhereFilterOp,
   OrderByDirection,
 } from "./types";
@@ -71,7 +208,40 @@ export { CacheManager } from "./cache/cacheManager";
 import { initializeFirebase, resetFirebase } from "./core/firebase";
 import { getData, updateData, createData, deleteData } from "./core/operations";
 import { listenData } from "./core/operations/listenData";
+import {
+  listActiveListeners,
+  unsubscribeAll,
+} from "./core/listenerRegistry";
+import {
+  listenIterable,
+  listenObservable,
+} from "./core/operations/listenStreams";
+import { aggregateData } from "./core/operations/aggregateData";
+import { createMany } from "./core/operations/createMany";
+import { updateWhere } from "./core/operations/updateWhere";
+import { deleteWhere } from "./core/operations/deleteWhere";
+import { restoreData } from "./core/operations/restoreData";
+import { purgeDeleted } from "./core/operations/purgeDeleted";
+import { backfillDeleted } from "./core/operations/backfillDeleted";
+import { batchData } from "./core/operations/batch";
+import { transactionData } from "./core/operations/transaction";
 import { formatDocument, formatCollection } from "./utils/formatters";
+import { configureConversion } from "./utils/conversion";
+import { use } from "./core/middleware";
+import { registerValidator } from "./core/validation";
+import { defineCollection } from "./core/collection";
+import { configureRetry } from "./core/retry";
+import { configureTimeout } from "./core/timeout";
+import { configureTimestamps } from "./core/timestamps";
+import { configureSoftDelete } from "./core/softDelete";
+import { registerSubcollections } from "./core/recursiveDelete";
+import {
+  increment,
+  arrayUnion,
+  arrayRemove,
+  serverTimestamp,
+  deleteField,
+} from "./utils/fieldTransforms";
 import { handleError, reportError } from "./errors";
 import { CacheManager } from "./cache/cacheManager";
 
@@ -82,9 +252,36 @@ const FirestoreHelper = {
   update: updateData,
   create: createData,
   removeDoc: deleteData,
+  createMany,
+  updateWhere,
+  deleteWhere,
+  restore: restoreData,
+  purgeDeleted,
+  backfillDeleted,
   listen: listenData,
+  listenIterable,
+  listenObservable,
+  listActiveListeners,
+  unsubscribeAll,
+  aggregate: aggregateData,
+  batch: batchData,
+  transaction: transactionData,
+  use,
+  registerValidator,
+  registerSubcollections,
+  defineCollection,
   formatDocument,
   formatCollection,
+  configureConversion,
+  configureRetry,
+  configureTimeout,
+  configureTimestamps,
+  configureSoftDelete,
+  increment,
+  arrayUnion,
+  arrayRemove,
+  serverTimestamp,
+  deleteField,
   handleError,
   reportError,
   cache: CacheManager.getInstance(),
@@ -11,6 +11,88 @@ export type { WhereFilterOp, OrderByDirection };
  */
 export type FirebaseConfig = FirebaseOptions;
 
+/**
+ * Address of a Firestore emulator
+ */
+export interface EmulatorOptions {
+  /** Emulator host (e.g. 'localhost') */
+  host: string;
+  /** Emulator port (e.g. 8080) */
+  port: number;
+}
+
+/**
+ * Options for initializing Firebase
+ * Used by initializeFirebase/initialize function
+ */
+export interface InitializeOptions {
+  /**
+   * Firestore emulator to connect to
+   * If not specified, the FIRESTORE_EMULATOR_HOST environment variable is used when set.
+   * Pass false to ignore the environment variable.
+   */
+  emulator?: EmulatorOptions | false;
+  /**
+   * Name of the instance - used to target it with the `instance` option of operations
+   * Also used as the Firebase app name. Defaults to the default instance.
+   */
+  name?: string;
+  /** ID of a named Firestore database (defaults to the "(default)" database) */
+  databaseId?: string;
+}
+
+/**
+ * Policy for retrying operations that failed with a transient error
+ * Configured globally with configureRetry and overridden per call with the retry option
+ */
+export interface RetryPolicy {
+  /** Maximum number of attempts including the first one */
+  maxAttempts: number;
+  /** Delay before the first retry in milliseconds, doubled with each further retry */
+  baseDelayMs: number;
+  /** Upper bound of the delay between attempts in milliseconds */
+  maxDelayMs: number;
+  /** Whether to randomize delays, so many clients do not retry at the same time */
+  jitter: boolean;
+  /** Error classes that are retried (errors are classified by handleError first) */
+  retryOn: Array<new (...args: any[]) => FirestoreHelperError>;
+  /** Whether to retry writes that are not idempotent, like increment() */
+  retryNonIdempotent: boolean;
+}
+
+/**
+ * Per-call retry option - overrides parts of the global policy, or false to disable retries
+ */
+export type RetryOptions = Partial<RetryPolicy> | false;
+
+/**
+ * Option shared by one-shot operations to control retries
+ */
+export interface RetryableOptions {
+  /** Retry policy for this call (defaults to the global policy) */
+  retry?: RetryOptions;
+}
+
+/**
+ * Option shared by one-shot operations to limit how long they wait for Firestore
+ */
+export interface TimeoutOptions {
+  /**
+   * Time limit of each attempt in milliseconds - an attempt that takes longer fails the operation
+   * with a TimeoutError, which is not retried
+   * (defaults to the global configuration, 0 disables the limit)
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Option shared by all operations to target a named instance
+ */
+export interface InstanceOptions {
+  /** Name of the instance registered with initialize (defaults to the default instance) */
+  instance?: string;
+}
+
 /**
  * Current state of the Firebase instance
  * Tracks initialization status and available services
@@ -22,13 +104,45 @@ export interface FirebaseState {
   firestore: Firestore | null;
   /** Whether Firebase has been initialized */
   initialized: boolean;
+  /** Emulator the Firestore instance is connected to, if any */
+  emulator: EmulatorOptions | null;
 }
 
+/**
+ * Options for converting Firestore-specific values in returned documents
+ * Applied recursively to nested maps and arrays
+ */
+export interface ConversionOptions {
+  /**
+   * How to return Timestamp values
+   * 'timestamp' keeps Firestore Timestamps, 'date' converts to Date,
+   * 'iso' to ISO 8601 strings and 'millis' to epoch milliseconds
+   */
+  timestamps?: "timestamp" | "date" | "iso" | "millis";
+  /**
+   * How to return GeoPoint values
+   * 'geopoint' keeps Firestore GeoPoints, 'object' converts to { latitude, longitude }
+   */
+  geoPoints?: "geopoint" | "object";
+  /**
+   * How to return DocumentReference values
+   * 'reference' keeps Firestore references, 'path' converts to the document path string
+   */
+  references?: "reference" | "path";
+}
+
+/**
+ * Pagination cursor
+ * Either an opaque cursor string returned by a paginated query,
+ * or an array of raw values matching the orderBy fields of the query
+ */
+export type QueryCursor = string | unknown[];
+
 /**
  * Options for retrieving data from Firestore
  * Used by getData/get function
  */
-export interface GetOptions {
+export interface GetOptions extends InstanceOptions {
   /** Path to the collection or document in Firestore */
   path: string;
   /** Optional document ID when retrieving a single document from a collection */
@@ -39,13 +153,79 @@ export interface GetOptions {
   orderBy?: Array<[string, OrderByDirection?]>;
   /** Optional maximum number of documents to return */
   limit?: number;
+  /** Optional cursor - start the results after this position */
+  startAfter?: QueryCursor;
+  /** Optional cursor - start the results at this position */
+  startAt?: QueryCursor;
+  /** Optional cursor - end the results before this position */
+  endBefore?: QueryCursor;
+  /** Optional cursor - end the results at this position */
+  endAt?: QueryCursor;
+  /**
+   * Collection group mode - path is a collection ID (e.g. 'comments') and the query
+   * runs across all collections with that ID. Each document includes its full `_path`.
+   */
+  collectionGroup?: boolean;
+  /** Optional conversion of Timestamps, GeoPoints and references (overrides the global configuration) */
+  convert?: ConversionOptions;
+  /** Whether to include soft-deleted documents (see configureSoftDelete) */
+  includeDeleted?: boolean;
+  /**
+   * Whether to return the snapshot metadata (fromCache, hasPendingWrites)
+   * Listeners also receive metadata-only changes, e.g. when pending writes are confirmed
+   */
+  includeMetadata?: boolean;
+}
+
+/**
+ * A single page of documents returned by a paginated query
+ * Pass nextCursor as startAfter to get the next page,
+ * or prevCursor as endBefore to get the previous one
+ */
+export interface PaginatedData<T> {
+  /** Documents on this page */
+  items: T[];
+  /** Cursor of the next page (null if this is the last page) */
+  nextCursor: string | null;
+  /** Cursor of the previous page (null if this is the first page) */
+  prevCursor: string | null;
+}
+
+/**
+ * Options for running aggregation queries in Firestore
+ * Used by aggregateData/aggregate function
+ */
+export interface AggregateOptions
+  extends Pick<GetOptions, "path" | "where" | "instance" | "includeDeleted"> {
+  /** Whether to count the matching documents (default when no other aggregation is requested) */
+  count?: boolean;
+  /** Fields to sum across the matching documents */
+  sum?: string[];
+  /** Fields to average across the matching documents */
+  average?: string[];
+}
+
+/**
+ * Results of an aggregation query
+ * Returned by aggregateData/aggregate function
+ */
+export interface AggregateData {
+  /** Number of matching documents (only present if count was requested) */
+  count?: number;
+  /** Sum of each requested field */
+  sum: Record<string, number>;
+  /** Average of each requested field (null if no document contains a numeric value) */
+  average: Record<string, number | null>;
 }
 
 /**
  * Options for creating data in Firestore
  * Used by createData/create function
  */
-export interface CreateOptions<T> {
+export interface CreateOptions<T>
+  extends InstanceOptions,
+    RetryableOptions,
+    TimeoutOptions {
   /** Path to the collection in Firestore */
   path: string;
   /** Optional document ID (will be auto-generated if not provided) */
@@ -60,11 +240,59 @@ export interface CreateOptions<T> {
   silent?: boolean;
 }
 
+/**
+ * Options for creating many documents in Firestore
+ * Used by createMany function
+ */
+export interface CreateManyOptions<T>
+  extends InstanceOptions,
+    RetryableOptions,
+    TimeoutOptions {
+  /** Path to the collection in Firestore */
+  path: string;
+  /** Data of the documents to create */
+  items: T[];
+  /** Optional field holding the document ID of each item (IDs are auto-generated if not provided) */
+  idField?: keyof T & string;
+  /** Number of documents committed in one batch (default and maximum 500) */
+  chunkSize?: number;
+  /** Maximum number of batches committed at the same time (default 4) */
+  concurrency?: number;
+}
+
+/**
+ * Outcome of a single item of createMany
+ */
+export interface CreateManyItemResult {
+  /** Index of the item in the items array */
+  index: number;
+  /** ID of the document (null if the item has no valid ID) */
+  id: string | null;
+  /** Error of the item (null if the document was created) */
+  error: FirestoreHelperError | null;
+}
+
+/**
+ * Summary of createMany
+ * Returned by createMany function
+ */
+export interface CreateManyResult {
+  /** Number of created documents */
+  created: number;
+  /** Number of items that failed */
+  failed: number;
+  /** Outcome of each item, in the order of the items */
+  items: CreateManyItemResult[];
+}
+
 /**
  * Options for updating data in Firestore
  * Used by updateData/update function
  */
-export interface UpdateOptions<T> {
+export interface UpdateOptions<T>
+  extends InstanceOptions,
+    RetryableOptions,
+    TimeoutOptions {
   /** Path to the collection in Firestore */
   path: string;
   /** Document ID of the document to update */
@@ -85,7 +313,10 @@ export interface UpdateOptions<T> {
  * Options for deleting data from Firestore
  * Used by deleteData/remove function
  */
-export interface DeleteOptions {
+export interface DeleteOptions
+  extends InstanceOptions,
+    RetryableOptions,
+    TimeoutOptions {
   /** Path to the collection in Firestore */
   path: string;
   /** Document ID of the document to delete */
@@ -96,6 +327,144 @@ export interface DeleteOptions {
    * after deletion because the existing listener will automatically receive updates.
    */
   silent?: boolean;
+  /**
+   * Whether to mark the document as deleted instead of deleting it
+   * Defaults to the soft delete configuration of the collection (see configureSoftDelete)
+   */
+  soft?: boolean;
+  /**
+   * Whether to delete the subcollections of the document as well
+   * Recursive deletes always delete permanently (see registerSubcollections)
+   */
+  recursive?: boolean;
+  /** Subcollections to delete recursively (the registered ones if not specified) */
+  subcollections?: string[];
+  /** Called after each chunk of a recursive delete */
+  onProgress?: (progress: DeleteProgress) => void;
+}
+
+/**
+ * Progress of a recursive delete
+ */
+export interface DeleteProgress {
+  /** Number of documents deleted so far */
+  deleted: number;
+  /** Path to the collection of the last deleted chunk */
+  path: string;
+}
+
+/**
+ * Options for restoring a soft-deleted document
+ * Used by restoreData/restore function
+ */
+export interface RestoreOptions
+  extends InstanceOptions,
+    RetryableOptions,
+    TimeoutOptions {
+  /** Path to the collection in Firestore */
+  path: string;
+  /** Document ID of the document to restore */
+  docId: string;
+}
+
+/**
+ * Options for permanently deleting soft-deleted documents
+ * Used by purgeDeleted function
+ */
+export interface PurgeDeletedOptions extends InstanceOptions {
+  /** Path to the collection in Firestore */
+  path: string;
+  /** Purge documents deleted before this date, or more than this many milliseconds ago */
+  olderThan: Date | number;
+}
+
+/**
+ * Summary of a purge of soft-deleted documents
+ * Returned by purgeDeleted function
+ */
+export interface PurgeResult {
+  /** Number of permanently deleted documents */
+  purged: number;
+}
+
+/**
+ * Options for adding the deletedAt field to existing documents
+ * Used by backfillDeleted function
+ */
+export interface BackfillDeletedOptions extends InstanceOptions {
+  /** Path to the collection in Firestore */
+  path: string;
+}
+
+/**
+ * Summary of a backfill of the deletedAt field
+ * Returned by backfillDeleted function
+ */
+export interface BackfillResult {
+  /** Number of read documents */
+  scanned: number;
+  /** Number of documents the field was added to */
+  updated: number;
+}
+
+/**
+ * Options for writing to all documents matching a query
+ * Used by updateWhere and deleteWhere functions
+ */
+export interface WhereWriteOptions
+  extends Pick<GetOptions, "path" | "where" | "includeDeleted" | "instance"> {
+  /** Only find the matching documents and return their IDs, without writing */
+  dryRun?: boolean;
+}
+
+/**
+ * Options for updating all documents matching a query
+ * Used by updateWhere function
+ */
+export interface UpdateWhereOptions<T> extends WhereWriteOptions {
+  /** Data to merge into each matching document */
+  data: Partial<T>;
+}
+
+/**
+ * Options for deleting all documents matching a query
+ * Used by deleteWhere function
+ */
+export interface DeleteWhereOptions extends WhereWriteOptions {
+  /**
+   * Whether to mark the documents as deleted instead of deleting them
+   * Defaults to the soft delete configuration of the collection (see configureSoftDelete)
+   */
+  soft?: boolean;
+}
+
+/**
+ * Summary of a write to all documents matching a query
+ * Returned by updateWhere and deleteWhere functions
+ */
+export interface WhereWriteResult {
+  /** Number of documents matching the query */
+  matched: number;
+  /** Number of written documents (updates that would not change a document are skipped) */
+  changed: number;
+  /** Number of documents whose batch failed */
+  failed: number;
+  /** IDs of the matching documents (only in dry run mode) */
+  ids?: string[];
+}
+
+/**
+ * Summary of a committed write batch
+ * Returned by batch().commit() - also alongside the error when a chunk fails
+ * after earlier chunks were committed, then covering only the committed chunks
+ */
+export interface BatchResult {
+  /** Number of committed writes */
+  writeCount: number;
+  /** Number of committed Firestore batches the writes were split into */
+  batchCount: number;
+  /** IDs of the committed documents, in the order the operations were queued */
+  ids: string[];
 }
 
 /**
@@ -103,10 +472,66 @@ export interface DeleteOptions {
  * Used by listenData/listen function
  */
 export interface ListenOptions<T = any> extends GetOptions {
-  /** Callback function called when data changes */
-  onNext: (data: T | T[] | null) => void;
+  /** Callback function called when data changes (with the snapshot metadata if includeMetadata is set) */
+  onNext?: (data: T | T[] | null, metadata?: SnapshotMetadata) => void;
+  /** Callback function called with the changed documents of a collection (requires no docId) */
+  onChanges?: (
+    changes: DocumentChangeEvent<T>[],
+    metadata?: SnapshotMetadata
+  ) => void;
   /** Callback function called when an error occurs */
   onError?: (error: Error) => void;
+  /** Callback function called when the listener is stopped by unsubscribeAll or reset (not by its own unsubscribe) */
+  onClose?: () => void;
+  /**
+   * Deliver only after no new snapshot arrived for this many milliseconds
+   * Coalesced deliveries use the latest snapshot, and onChanges receives the merged changes
+   */
+  debounceMs?: number;
+  /**
+   * Deliver at most once per this many milliseconds (cannot be combined with debounceMs)
+   * Coalesced deliveries use the latest snapshot, and onChanges receives the merged changes
+   */
+  throttleMs?: number;
+}
+
+/**
+ * Real-time listener shared by all subscribers with the same options
+ * Returned by listActiveListeners
+ */
+export interface ActiveListener {
+  /** Key of the listener, built from its path and query options */
+  key: string;
+  /** Path to the collection or document */
+  path: string;
+  /** Document ID when listening to a single document */
+  docId?: string;
+  /** Name of the instance the listener belongs to */
+  instance: string;
+  /** Number of subscribers sharing the listener */
+  subscribers: number;
+  /** When the listener was started */
+  since: Date;
+}
+
+/**
+ * Type of a document change reported by a collection listener
+ */
+export type DocumentChangeType = "added" | "modified" | "removed";
+
+/**
+ * Change of a single document since the previous snapshot of a listener
+ * The first snapshot reports all matching documents as added.
+ */
+export interface DocumentChangeEvent<T = any> {
+  /** Type of the change */
+  type: DocumentChangeType;
+  /** The formatted document (its last known data for removed documents) */
+  doc: T;
+  /** Index of the document in the previous snapshot (-1 for added documents) */
+  oldIndex: number;
+  /** Index of the document in the new snapshot (-1 for removed documents) */
+  newIndex: number;
 }
 
 /**
@@ -120,4 +545,18 @@ export interface Result<T = any> {
   error: FirestoreHelperError | null;
   /** Whether the operation is still in progress */
   loading: boolean;
+  /** True when a timed-out read returned expired data from the cache (see fallbackToCache) */
+  stale?: boolean;
+  /** Metadata of the snapshot the data was read from (only with includeMetadata) */
+  metadata?: SnapshotMetadata;
+}
+
+/**
+ * Metadata of a Firestore snapshot
+ */
+export interface SnapshotMetadata {
+  /** True if the data came from a local cache rather than the server */
+  fromCache: boolean;
+  /** True if the data contains local writes not yet committed to the server */
+  hasPendingWrites: boolean;
 }
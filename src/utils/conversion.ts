@@ -0,0 +1,131 @@
+import { Timestamp, GeoPoint, DocumentReference } from "firebase/firestore";
+import { ConversionOptions } from "../types";
+import { CacheManager } from "../cache/cacheManager";
+import { isPlainObject } from "./fieldTransforms";
+import { createLogger } from "../logging";
+
+const logger = createLogger("conversion");
+
+/**
+ * Default conversion - values are returned as Firestore SDK objects
+ */
+export const defaultConversion: Required<ConversionOptions> = {
+  timestamps: "timestamp",
+  geoPoints: "geopoint",
+  references: "reference",
+};
+
+/**
+ * Current global conversion configuration
+ */
+let config: Required<ConversionOptions> = { ...defaultConversion };
+
+/**
+ * Configure how Firestore-specific values are converted in returned documents
+ *
+ * Cached results were converted with the previous configuration,
+ * so the cache is cleared whenever the configuration changes.
+ *
+ * @param newConfig - New conversion options
+ * @returns The updated configuration
+ *
+ * @example
+ * ```
+ * // Return all Timestamps as Date objects and references as paths
+ * configureConversion({ timestamps: 'date', references: 'path' });
+ * ```
+ */
+export function configureConversion(
+  newConfig: ConversionOptions
+): Required<ConversionOptions> {
+  config = { ...config, ...newConfig };
+  logger.info("Conversion configuration updated", config);
+  CacheManager.getInstance().clear();
+  return { ...config };
+}
+
+/**
+ * Get the current conversion configuration
+ *
+ * @returns The current configuration
+ */
+export function getConversionConfig(): Required<ConversionOptions> {
+  return { ...config };
+}
+
+/**
+ * Resolves per-call conversion options against the global configuration
+ */
+export function resolveConversion(
+  options?: ConversionOptions
+): Required<ConversionOptions> {
+  return options ? { ...config, ...options } : config;
+}
+
+/**
+ * Returns true if the conversion leaves all values untouched
+ */
+function isIdentity(options: Required<ConversionOptions>): boolean {
+  return (
+    options.timestamps === defaultConversion.timestamps &&
+    options.geoPoints === defaultConversion.geoPoints &&
+    options.references === defaultConversion.references
+  );
+}
+
+function convertTimestamp(
+  value: Timestamp,
+  mode: Required<ConversionOptions>["timestamps"]
+): unknown {
+  switch (mode) {
+    case "date":
+      return value.toDate();
+    case "iso":
+      return value.toDate().toISOString();
+    case "millis":
+      return value.toMillis();
+    default:
+      return value;
+  }
+}
+
+function convert(value: unknown, options: Required<ConversionOptions>): unknown {
+  if (value instanceof Timestamp) {
+    return convertTimestamp(value, options.timestamps);
+  }
+  if (value instanceof GeoPoint) {
+    return options.geoPoints === "object"
+      ? { latitude: value.latitude, longitude: value.longitude }
+      : value;
+  }
+  if (value instanceof DocumentReference) {
+    return options.references === "path" ? value.path : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => convert(item, options));
+  }
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = {};
+    Object.keys(value).forEach((key) => {
+      result[key] = convert(value[key], options);
+    });
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Converts Timestamps, GeoPoints and DocumentReferences in document data
+ * Nested maps and arrays are converted recursively
+ *
+ * @param data - Document data
+ * @param options - Per-call conversion options (merged with the global configuration)
+ * @returns Converted data
+ */
+export function convertData<T>(data: T, options?: ConversionOptions): T {
+  const resolved = resolveConversion(options);
+  if (isIdentity(resolved)) {
+    return data;
+  }
+  return convert(data, resolved) as T;
+}
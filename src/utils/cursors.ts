@@ -0,0 +1,109 @@
+import { Timestamp, QueryDocumentSnapshot, DocumentData } from "firebase/firestore";
+import { QueryCursor } from "../types";
+import { ValidationError } from "../errors";
+
+/**
+ * Version of the opaque cursor format, bumped whenever the encoding changes
+ */
+const CURSOR_VERSION = 1;
+
+/**
+ * Encoded shape of a single cursor value
+ * Timestamps are tagged so they can be restored when the cursor is decoded
+ */
+type EncodedValue =
+  | { t: "ts"; s: number; n: number }
+  | { t: "v"; v: unknown };
+
+function encodeBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function decodeBase64(encoded: string): string {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+function encodeValue(value: unknown): EncodedValue {
+  if (value instanceof Timestamp) {
+    return { t: "ts", s: value.seconds, n: value.nanoseconds };
+  }
+  return { t: "v", v: value };
+}
+
+function decodeValue(value: EncodedValue): unknown {
+  if (value.t === "ts") {
+    return new Timestamp(value.s, value.n);
+  }
+  return value.v;
+}
+
+/**
+ * Encodes cursor values into an opaque string
+ * @param values - Values of the orderBy fields of the boundary document
+ * @returns Opaque cursor string
+ */
+export function encodeCursor(values: unknown[]): string {
+  return encodeBase64(
+    JSON.stringify({ v: CURSOR_VERSION, values: values.map(encodeValue) })
+  );
+}
+
+/**
+ * Decodes an opaque cursor string back into cursor values
+ * @param cursor - Cursor string returned by a paginated query
+ * @returns Values of the orderBy fields of the boundary document
+ */
+export function decodeCursor(cursor: string): unknown[] {
+  try {
+    const parsed = JSON.parse(decodeBase64(cursor));
+    if (parsed.v !== CURSOR_VERSION || !Array.isArray(parsed.values)) {
+      throw new Error(`Unsupported cursor version: ${parsed.v}`);
+    }
+    return parsed.values.map(decodeValue);
+  } catch (error) {
+    throw new ValidationError(
+      "Invalid pagination cursor",
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Resolves a cursor option to the values passed to startAfter/startAt/endBefore/endAt
+ * @param cursor - Opaque cursor string or an array of raw field values
+ * @returns Array of cursor values
+ */
+export function resolveCursor(cursor: QueryCursor): unknown[] {
+  return typeof cursor === "string" ? decodeCursor(cursor) : cursor;
+}
+
+/**
+ * Builds an opaque cursor pointing at the given document
+ * The cursor contains the values of all orderBy fields followed by the document ID,
+ * matching the implicit document ID ordering added to paginated queries
+ * @param doc - Boundary document of the page
+ * @param orderByFields - Fields the query is ordered by
+ * @param collectionGroup - Whether the query is a collection group query,
+ * which requires the full document path instead of the document ID
+ * @returns Opaque cursor string
+ */
+export function cursorFromDocument(
+  doc: QueryDocumentSnapshot<DocumentData>,
+  orderByFields: string[],
+  collectionGroup = false
+): string {
+  return encodeCursor([
+    ...orderByFields.map((field) => doc.get(field)),
+    collectionGroup ? doc.ref.path : doc.id,
+  ]);
+}
@@ -0,0 +1,187 @@
+import {
+  increment as firestoreIncrement,
+  arrayUnion as firestoreArrayUnion,
+  arrayRemove as firestoreArrayRemove,
+  serverTimestamp as firestoreServerTimestamp,
+  deleteField as firestoreDeleteField,
+  DocumentData,
+  FieldValue,
+} from "firebase/firestore";
+
+/**
+ * Kinds of field transforms supported by the helper
+ */
+export type FieldTransformType =
+  | "increment"
+  | "arrayUnion"
+  | "arrayRemove"
+  | "serverTimestamp"
+  | "deleteField";
+
+/**
+ * Helper-level sentinel describing a server-side field transform
+ * Converted to a Firestore FieldValue when the data is written, and echoed
+ * back in results as a readable placeholder instead of an opaque FieldValue
+ */
+export class FieldTransform {
+  /** Kind of the transform */
+  readonly type: FieldTransformType;
+  /** Operand of the transform (amount for increment, elements for array transforms) */
+  readonly operand?: number | unknown[];
+
+  constructor(type: FieldTransformType, operand?: number | unknown[]) {
+    this.type = type;
+    this.operand = operand;
+  }
+
+  /**
+   * Converts the transform to the Firestore FieldValue sentinel
+   */
+  toFieldValue(): FieldValue {
+    switch (this.type) {
+      case "increment":
+        return firestoreIncrement(this.operand as number);
+      case "arrayUnion":
+        return firestoreArrayUnion(...(this.operand as unknown[]));
+      case "arrayRemove":
+        return firestoreArrayRemove(...(this.operand as unknown[]));
+      case "serverTimestamp":
+        return firestoreServerTimestamp();
+      case "deleteField":
+        return firestoreDeleteField();
+    }
+  }
+}
+
+/**
+ * Increments a numeric field by the given amount (use a negative amount to decrement)
+ * @param amount - Amount to add
+ */
+export function increment(amount: number): FieldTransform {
+  return new FieldTransform("increment", amount);
+}
+
+/**
+ * Adds elements to an array field, skipping elements that are already present
+ * @param elements - Elements to add
+ */
+export function arrayUnion(...elements: unknown[]): FieldTransform {
+  return new FieldTransform("arrayUnion", elements);
+}
+
+/**
+ * Removes all instances of the elements from an array field
+ * @param elements - Elements to remove
+ */
+export function arrayRemove(...elements: unknown[]): FieldTransform {
+  return new FieldTransform("arrayRemove", elements);
+}
+
+/**
+ * Sets a field to the server time of the write
+ */
+export function serverTimestamp(): FieldTransform {
+  return new FieldTransform("serverTimestamp");
+}
+
+/**
+ * Deletes a field from the document (update only)
+ */
+export function deleteField(): FieldTransform {
+  return new FieldTransform("deleteField");
+}
+
+/**
+ * Returns true for plain objects (maps), which may contain nested transforms
+ */
+export function isPlainObject(value: unknown): value is Record<string, any> {
+  if (value === null || typeof value !== "object") {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Replaces field transforms in a plain object, recursing into nested maps
+ */
+function mapTransforms(
+  data: Record<string, any>,
+  replace: (transform: FieldTransform) => unknown
+): Record<string, any> {
+  const result: Record<string, any> = {};
+
+  Object.keys(data).forEach((key) => {
+    const value = data[key];
+    const replaced =
+      value instanceof FieldTransform
+        ? replace(value)
+        : isPlainObject(value)
+        ? mapTransforms(value, replace)
+        : value;
+
+    if (replaced !== undefined) {
+      result[key] = replaced;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Checks whether data contains field transforms
+ * @param data - Data to check
+ * @param types - Only look for these transform types (all types by default)
+ */
+export function hasFieldTransforms(
+  data: unknown,
+  types?: FieldTransformType[]
+): boolean {
+  if (!isPlainObject(data)) {
+    return false;
+  }
+  return Object.values(data).some((value) =>
+    value instanceof FieldTransform
+      ? !types || types.includes(value.type)
+      : hasFieldTransforms(value, types)
+  );
+}
+
+/**
+ * Converts helper field transforms into Firestore FieldValue sentinels
+ * @param data - Data to write
+ * @returns Data ready to be passed to setDoc/updateDoc
+ */
+export function toFirestoreData(data: object): DocumentData {
+  if (!hasFieldTransforms(data)) {
+    return data as DocumentData;
+  }
+  return mapTransforms(data as Record<string, any>, (transform) =>
+    transform.toFieldValue()
+  );
+}
+
+/**
+ * Resolves field transforms for the data echoed back in results
+ * serverTimestamp is resolved to the local time of the write, deleteField removes
+ * the field, and the other transforms stay as readable FieldTransform placeholders
+ * because their result depends on the stored value
+ * @param data - Written data
+ * @returns Data without Firestore sentinels
+ */
+export function resolveFieldTransforms<T extends object>(data: T): T {
+  if (!hasFieldTransforms(data)) {
+    return data;
+  }
+
+  const now = new Date();
+  return mapTransforms(data, (transform) => {
+    if (transform.type === "serverTimestamp") {
+      return now;
+    }
+    if (transform.type === "deleteField") {
+      return undefined;
+    }
+    return transform;
+  }) as T;
+}
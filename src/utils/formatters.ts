@@ -3,42 +3,118 @@ import {
   QuerySnapshot,
   DocumentData,
 } from "firebase/firestore";
+import {
+  ConversionOptions,
+  DocumentChangeEvent,
+  SnapshotMetadata,
+} from "../types";
+import { convertData } from "./conversion";
+import { validateRead } from "../core/validation";
+
+/**
+ * Možnosti formátování dokumentů
+ */
+export interface FormatOptions {
+  /** Přidá do dokumentu úplnou cestu jako `_path` (např. pro collection group dotazy) */
+  includePath?: boolean;
+  /** Převod Timestampů, GeoPointů a referencí (přepisuje globální konfiguraci) */
+  convert?: ConversionOptions;
+}
 
 /**
  * Formátuje Firestore dokument do použitelného objektu
  * @param doc - Dokument z Firestore
+ * @param options - Možnosti formátování
  * @returns Formátovaný dokument s ID
+ * @throws {ValidationError} Pokud dokument neodpovídá validátoru s validateOnRead
  */
 export function formatDocument<T = Record<string, any>>(
-  doc: DocumentSnapshot<DocumentData>
+  doc: DocumentSnapshot<DocumentData>,
+  options: FormatOptions = {}
 ): T | null {
   if (!doc.exists()) {
     return null;
   }
 
-  return {
+  const data = convertData(doc.data(), options.convert);
+
+  // Validace při čtení (pouze pokud je registrován validátor s validateOnRead)
+  if (doc.ref?.path) {
+    validateRead(doc.ref.path, data);
+  }
+
+  const formatted: Record<string, any> = {
     id: doc.id,
-    ...doc.data(),
-  } as T;
+    ...data,
+  };
+
+  if (options.includePath) {
+    formatted._path = doc.ref.path;
+  }
+
+  return formatted as T;
 }
 
 /**
  * Konvertuje Firestore kolekci na pole objektů
  * @param snapshot - Snapshot kolekce z Firestore
+ * @param options - Možnosti formátování
  * @returns Pole formátovaných dokumentů
  */
 export function formatCollection<T = Record<string, any>>(
-  snapshot: QuerySnapshot<DocumentData>
+  snapshot: QuerySnapshot<DocumentData>,
+  options: FormatOptions = {}
 ): T[] {
   if (snapshot.empty) {
     return [];
   }
 
   return snapshot.docs
-    .map((doc) => formatDocument<T>(doc))
+    .map((doc) => formatDocument<T>(doc, options))
     .filter(Boolean) as T[];
 }
 
+/**
+ * Převede změny dokumentů od posledního snapshotu na události změn
+ * @param snapshot - Snapshot kolekce z Firestore
+ * @param options - Možnosti formátování
+ * @param initial - Vrátí všechny dokumenty snapshotu jako přidané (pro nového odběratele)
+ * @returns Pole událostí s formátovanými dokumenty
+ */
+export function formatChanges<T = Record<string, any>>(
+  snapshot: QuerySnapshot<DocumentData>,
+  options: FormatOptions = {},
+  initial = false
+): DocumentChangeEvent<T>[] {
+  if (initial) {
+    return formatCollection<T>(snapshot, options).map((doc, newIndex) => ({
+      type: "added",
+      doc,
+      oldIndex: -1,
+      newIndex,
+    }));
+  }
+
+  return snapshot.docChanges().map((change) => ({
+    type: change.type,
+    doc: formatDocument<T>(change.doc, options) as T,
+    oldIndex: change.oldIndex,
+    newIndex: change.newIndex,
+  }));
+}
+
+/**
+ * Převede metadata snapshotu na prostý objekt
+ * @param metadata - Metadata snapshotu z Firestore
+ * @returns Metadata s příznaky fromCache a hasPendingWrites
+ */
+export function formatMetadata(metadata: SnapshotMetadata): SnapshotMetadata {
+  return {
+    fromCache: metadata.fromCache,
+    hasPendingWrites: metadata.hasPendingWrites,
+  };
+}
+
 /**
  * Sloučí cestu a ID dokumentu do jedné cesty
  * @param path - Základní cesta ke kolekci
@@ -0,0 +1,141 @@
+import { ValidationError } from "../errors";
+
+/**
+ * Path patterns describe documents or collections with placeholders, e.g.
+ * `users/{uid}` (documents of the users collection) or `users/{uid}/posts`
+ * (posts subcollections of all users). A placeholder matches any single segment.
+ */
+
+/**
+ * Splits a path into its segments, ignoring leading and trailing slashes
+ */
+export function splitPath(path: string): string[] {
+  return path.split("/").filter((segment) => segment !== "");
+}
+
+/**
+ * Returns the parameter name of a placeholder segment like `{uid}`, or null
+ */
+function getParamName(segment: string): string | null {
+  const match = segment.match(/^\{(\w+)\}$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Matches path segments against pattern segments
+ * @returns Values of the placeholders, or null if the path does not match
+ */
+function matchSegments(
+  patternSegments: string[],
+  pathSegments: string[]
+): Record<string, string> | null {
+  if (patternSegments.length !== pathSegments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternSegments.length; i++) {
+    const paramName = getParamName(patternSegments[i]);
+    if (paramName) {
+      params[paramName] = pathSegments[i];
+    } else if (patternSegments[i] !== pathSegments[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/**
+ * Checks whether a document or collection matches a path pattern
+ * Document patterns (even number of segments) match documents in the collection
+ * described by all but the last segment. A literal last segment only matches
+ * that document ID; without a docId (e.g. a document created with an
+ * auto-generated ID) only a placeholder matches.
+ *
+ * @param pattern - Path pattern, e.g. `users/{uid}` or `users/{uid}/posts`
+ * @param collectionPath - Path to the collection
+ * @param docId - Optional ID of the document
+ * @returns Values of the placeholders, or null if the path does not match
+ *
+ * @example
+ * matchPathPattern('orgs/{orgId}/members/{uid}', 'orgs/acme/members', 'john');
+ * // { orgId: 'acme', uid: 'john' }
+ */
+export function matchPathPattern(
+  pattern: string,
+  collectionPath: string,
+  docId?: string
+): Record<string, string> | null {
+  const patternSegments = splitPath(pattern);
+  const collectionSegments = splitPath(collectionPath);
+
+  // Collection pattern
+  if (patternSegments.length % 2 === 1) {
+    return matchSegments(patternSegments, collectionSegments);
+  }
+
+  const params = matchSegments(
+    patternSegments.slice(0, -1),
+    collectionSegments
+  );
+  if (!params) {
+    return null;
+  }
+
+  const lastSegment = patternSegments[patternSegments.length - 1];
+  const paramName = getParamName(lastSegment);
+  if (paramName) {
+    if (docId !== undefined) {
+      params[paramName] = docId;
+    }
+    return params;
+  }
+  return docId === lastSegment ? params : null;
+}
+
+/**
+ * Splits a full document path into its collection path and document ID
+ * @param documentPath - Path to a document, e.g. `users/abc/posts/p1`
+ */
+export function splitDocumentPath(documentPath: string): {
+  collectionPath: string;
+  docId: string;
+} {
+  const segments = splitPath(documentPath);
+  return {
+    collectionPath: segments.slice(0, -1).join("/"),
+    docId: segments[segments.length - 1],
+  };
+}
+
+/**
+ * Replaces the placeholders of a path pattern with their values
+ * @param pattern - Path pattern, e.g. `orgs/{orgId}/members`
+ * @param params - Values of the placeholders
+ * @returns Path with the placeholders replaced
+ * @throws {ValidationError} If a value is missing or contains a slash
+ *
+ * @example
+ * fillPathPattern('orgs/{orgId}/members', { orgId: 'acme' }); // 'orgs/acme/members'
+ */
+export function fillPathPattern(
+  pattern: string,
+  params: Record<string, string> = {}
+): string {
+  return splitPath(pattern)
+    .map((segment) => {
+      const paramName = getParamName(segment);
+      if (!paramName) {
+        return segment;
+      }
+
+      const value = params[paramName];
+      if (!value || value.includes("/")) {
+        throw new ValidationError(
+          `Invalid value of path parameter "${paramName}" in ${pattern}`
+        );
+      }
+      return value;
+    })
+    .join("/");
+}